@@ -1,28 +1,44 @@
 import os
+import re
+import math
+import json
 import uuid
+import asyncio
 import tempfile
 import shutil
-from typing import List, Dict, Any, Optional
+from datetime import datetime, timezone
+from typing import List, Dict, Any, Literal, Optional, Tuple
 
 from fastapi import FastAPI, UploadFile, File, Form, HTTPException
-from fastapi.responses import JSONResponse
-from pydantic import BaseModel
+from fastapi.responses import FileResponse, StreamingResponse
+from pydantic import BaseModel, Field, field_validator, model_validator
 from fastapi.middleware.cors import CORSMiddleware
 
-from langchain_openai import OpenAIEmbeddings, ChatOpenAI
 from langchain_community.vectorstores import FAISS
 from langchain_text_splitters import RecursiveCharacterTextSplitter
 from langchain_community.document_loaders import PyPDFLoader, Docx2txtLoader, TextLoader
 from langchain.chains import ConversationalRetrievalChain
 from langchain.prompts import PromptTemplate
+from langchain_core.callbacks import (
+    AsyncCallbackHandler,
+    AsyncCallbackManagerForRetrieverRun,
+    CallbackManagerForRetrieverRun,
+)
+from langchain_core.documents import Document
+from langchain_core.retrievers import BaseRetriever
+from rank_bm25 import BM25Okapi
 from dotenv import load_dotenv
 
+from .providers import load_provider
+
 load_dotenv()
 
 base_url = os.getenv("OPENAI_BASE_URL")
 if base_url and not os.getenv("OPENAI_API_BASE"):
     os.environ["OPENAI_API_BASE"] = base_url
 
+provider = load_provider()
+
 app = FastAPI()
 app.add_middleware(
     CORSMiddleware,
@@ -37,25 +53,127 @@ sessions: Dict[str, Dict[str, Any]] = {}
 class ChatRequest(BaseModel):
     session_id: str
     message: str
+    stream: bool = False
+    # Answer the latest question again; the new answer replaces it in chat_history
+    regenerate: bool = False
+    # Also return every retrieved chunk with its score, and the standalone question searched for
+    debug: bool = False
+    # Ids of the documents the answer may draw on; None searches every document in the session
+    document_ids: Optional[List[str]] = None
+
+
+class HistoryTurnUpdate(BaseModel):
+    answer: str
+
+
+class HistoryTurn(BaseModel):
+    question: str
+    answer: str
+
+
+class HistoryReplace(BaseModel):
+    turns: List[HistoryTurn]
+
+
+class ConversationImport(BaseModel):
+    persona: Optional[str] = None
+    turns: List[HistoryTurn]
 
 
 class ResetRequest(BaseModel):
     session_id: str
 
 
-def ensure_openai_key() -> None:
-    if not os.getenv("OPENAI_API_KEY"):
-        raise HTTPException(status_code=500, detail="OPENAI_API_KEY is not set")
+class PersonaProfile(BaseModel):
+    display_name: str = Field("", max_length=120)
+    biography: str = Field("", max_length=2000)
+    era: str = Field("", max_length=120)
+    speaking_style: str = Field("", max_length=1000)
+    forbidden_topics: List[str] = Field(default_factory=list, max_length=20)
+    # An http(s) URL or a data:image URI, shown next to the persona's replies
+    avatar: Optional[str] = Field(None, max_length=400_000)
+
+    @field_validator("display_name", "biography", "era", "speaking_style")
+    @classmethod
+    def strip_text(cls, value: str) -> str:
+        return value.strip()
+
+    @field_validator("forbidden_topics")
+    @classmethod
+    def clean_topics(cls, value: List[str]) -> List[str]:
+        return [t.strip()[:200] for t in value if t.strip()]
 
+    @field_validator("avatar")
+    @classmethod
+    def check_avatar(cls, value: Optional[str]) -> Optional[str]:
+        if not value:
+            return None
+        if not value.startswith(("http://", "https://", "data:image/")):
+            raise ValueError("avatar must be an http(s) URL or a data:image URI")
+        return value
 
-def build_persona_prompt(persona: Optional[str]) -> PromptTemplate:
-    persona_label = persona.strip() if persona else "the individual described in the provided sources"
+
+CHAT_MODELS = ("gpt-4o-mini", "gpt-4o", "gpt-4.1-mini", "gpt-4.1")
+
+
+class SessionSettings(BaseModel):
+    model: str = "gpt-4o-mini"
+    temperature: float = Field(0.0, ge=0.0, le=2.0)
+    k: int = Field(4, ge=1, le=20)
+    search_type: Literal["similarity", "mmr"] = "similarity"
+    # Vector search, BM25 keyword search, or both fused; search_type applies to the vector side
+    retrieval_mode: Literal["vector", "keyword", "hybrid"] = "hybrid"
+    # Chunking only applies to documents uploaded after a change
+    chunk_size: int = Field(1200, ge=200, le=4000)
+    chunk_overlap: int = Field(150, ge=0, le=1000)
+
+    @field_validator("model")
+    @classmethod
+    def check_model(cls, value: str) -> str:
+        if value not in CHAT_MODELS:
+            raise ValueError(f"model must be one of: {', '.join(CHAT_MODELS)}")
+        return value
+
+    @model_validator(mode="after")
+    def check_overlap(self) -> "SessionSettings":
+        if self.chunk_overlap >= self.chunk_size:
+            raise ValueError("chunk_overlap must be smaller than chunk_size")
+        return self
+
+
+def ensure_provider_configured() -> None:
+    problem = provider.missing_config()
+    if problem:
+        raise HTTPException(status_code=500, detail=problem)
+
+
+def escape_braces(text: str) -> str:
+    # User-supplied text ends up inside a PromptTemplate, where braces are placeholders
+    return text.replace("{", "{{").replace("}", "}}")
+
+
+def build_persona_prompt(profile: Dict[str, Any]) -> PromptTemplate:
+    name = profile.get("display_name") or "the individual described in the provided sources"
+    character = [f"You are {escape_braces(name)} speaking with a curious visitor."]
+    if profile.get("biography"):
+        character.append(f"About you: {escape_braces(profile['biography'])}")
+    if profile.get("era"):
+        character.append(
+            f"Your era: {escape_braces(profile['era'])}. Speak from that time and know nothing of later events."
+        )
+    if profile.get("speaking_style"):
+        character.append(f"Speaking style: {escape_braces(profile['speaking_style'])}")
+    if profile.get("forbidden_topics"):
+        topics = "; ".join(escape_braces(t) for t in profile["forbidden_topics"])
+        character.append(f"Never discuss these topics; if asked, politely decline in character: {topics}.")
     template = (
-        f"You are {persona_label} speaking with a curious visitor.\n"
+        "\n".join(character) + "\n"
         "Stay strictly in character and speak in the first person.\n"
         "Use only the information from the source excerpts to answer.\n"
         "If the excerpts do not contain the answer, admit you cannot recall.\n"
-        "Keep the reply vivid yet concise and avoid inventing facts.\n\n"
+        "Keep the reply vivid yet concise and avoid inventing facts.\n"
+        "Each excerpt starts with a number in brackets. After any statement drawn from an excerpt,\n"
+        "cite it with that number, e.g. [1] or [2][3]. Never cite a number that is not listed.\n\n"
         "Conversation so far:\n{chat_history}\n\n"
         "Visitor question:\n{question}\n\n"
         "Source excerpts:\n{context}\n\n"
@@ -68,17 +186,162 @@ def build_persona_prompt(persona: Optional[str]) -> PromptTemplate:
     )
 
 
+# How each retrieved chunk is presented to the answer LLM, so it can cite it by number
+CITED_DOCUMENT_PROMPT = PromptTemplate(
+    input_variables=["page_content", "citation"],
+    template="[{citation}] {page_content}",
+)
+
+CITATION_MARKER = re.compile(r"\[(\d+)\]")
+
+
+TOKEN_PATTERN = re.compile(r"\w+")
+
+
+def tokenize(text: str) -> List[str]:
+    return TOKEN_PATTERN.findall(text.lower())
+
+
+class LexicalIndex:
+    """BM25 over a session's chunks, so exact names, dates and spellings can be matched.
+    BM25 cannot be updated in place; it is rebuilt whenever documents change."""
+
+    def __init__(self, docs: List[Document]) -> None:
+        self.docs = docs
+        self.bm25 = BM25Okapi([tokenize(d.page_content) for d in docs]) if docs else None
+
+    def search(self, query: str, k: int, document_ids: Optional[List[str]] = None) -> List[Tuple[Document, float]]:
+        tokens = tokenize(query)
+        if self.bm25 is None or not tokens:
+            return []
+        scores = self.bm25.get_scores(tokens)
+        order = sorted(range(len(self.docs)), key=lambda i: scores[i], reverse=True)
+        if document_ids is not None:
+            order = [i for i in order if self.docs[i].metadata.get("document_id") in document_ids]
+        ranked = [i for i in order[:k] if scores[i] > 0]
+        # Scaled against the best match so scores read like the vector side's 0-1 relevance
+        top = scores[ranked[0]] if ranked else 1.0
+        return [(self.docs[i], float(scores[i] / top)) for i in ranked]
+
+
+RRF_K = 60
+
+
+def fuse_rankings(rankings: List[List[Tuple[Document, float]]], k: int) -> List[Tuple[Document, float]]:
+    # Reciprocal rank fusion: a chunk ranked high by either search rises to the top.
+    # Scores are scaled so a chunk ranked first by every search gets 1.
+    fused: Dict[str, float] = {}
+    docs: Dict[str, Document] = {}
+    for ranking in rankings:
+        for rank, (doc, _) in enumerate(ranking):
+            key = doc.metadata.get("chunk_id")
+            docs.setdefault(key, doc)
+            fused[key] = fused.get(key, 0.0) + 1 / (RRF_K + rank + 1)
+    best = len(rankings) / (RRF_K + 1)
+    order = sorted(fused, key=lambda key: fused[key], reverse=True)[:k]
+    return [(docs[key], fused[key] / best) for key in order]
+
+
+def distance_relevance(distance: float) -> float:
+    """Maps a FAISS euclidean distance between unit-length embeddings onto 0-1, matching the
+    scale similarity_search_with_relevance_scores reports for the default index."""
+    return max(0.0, min(1.0, 1.0 - distance / math.sqrt(2)))
+
+
+class NumberedRetriever(BaseRetriever):
+    """Searches the session index and tags each chunk with its 1-based rank for inline [n]
+    citations, plus its 0-1 relevance score for the retrieval inspector."""
+
+    vectorstore: FAISS
+    lexical: Optional[LexicalIndex] = None
+    k: int = 4
+    search_type: str = "similarity"
+    retrieval_mode: str = "hybrid"
+    # Ids of the documents to search within; None searches everything
+    document_filter: Optional[List[str]] = None
+
+    @staticmethod
+    def number(docs: List[Document], scores: Optional[List[float]] = None) -> List[Document]:
+        numbered = []
+        for i, d in enumerate(docs):
+            meta = {**d.metadata, "citation": i + 1}
+            if scores is not None:
+                meta["score"] = round(float(scores[i]), 4)
+            numbered.append(Document(page_content=d.page_content, metadata=meta))
+        return numbered
+
+    def search(self, query: str) -> List[Tuple[Document, float]]:
+        if self.retrieval_mode == "vector" or self.lexical is None:
+            return self.vector_search(query)
+        if self.retrieval_mode == "keyword":
+            return self.lexical.search(query, self.k, self.document_filter)
+        return fuse_rankings(
+            [self.vector_search(query), self.lexical.search(query, self.k, self.document_filter)],
+            self.k,
+        )
+
+    def vector_search(self, query: str) -> List[Tuple[Document, float]]:
+        store = self.vectorstore
+        fetch_k = max(20, self.k * 4)
+        kwargs: Dict[str, Any] = {}
+        if self.document_filter is not None:
+            # FAISS filters after fetching, so every chunk is fetched to keep a small
+            # document in scope from being crowded out by the others
+            fetch_k = max(fetch_k, store.index.ntotal)
+            kwargs = {"filter": {"document_id": self.document_filter}, "fetch_k": fetch_k}
+        if self.search_type == "mmr":
+            # MMR picks a varied k from a larger pool of close matches. It reports raw
+            # distances, so they are mapped onto the same scale as similarity search.
+            pairs = store.max_marginal_relevance_search_with_score_by_vector(
+                store.embeddings.embed_query(query),
+                k=self.k,
+                fetch_k=fetch_k,
+                filter=kwargs.get("filter"),
+            )
+            return [(d, distance_relevance(score)) for d, score in pairs]
+        return store.similarity_search_with_relevance_scores(query, k=self.k, **kwargs)
+
+    def _get_relevant_documents(
+        self, query: str, *, run_manager: CallbackManagerForRetrieverRun
+    ) -> List[Document]:
+        pairs = self.search(query)
+        return self.number([d for d, _ in pairs], [score for _, score in pairs])
+
+    async def _aget_relevant_documents(
+        self, query: str, *, run_manager: AsyncCallbackManagerForRetrieverRun
+    ) -> List[Document]:
+        pairs = await asyncio.to_thread(self.search, query)
+        return self.number([d for d, _ in pairs], [score for _, score in pairs])
+
+
 def build_chain(session_data: Dict[str, Any]) -> ConversationalRetrievalChain:
-    llm = ChatOpenAI(model="gpt-4o-mini", temperature=0)
-    prompt = build_persona_prompt(session_data.get("persona"))
+    # Only the answer LLM streams; the question condenser stays silent so its
+    # rewritten question never leaks into the token stream.
+    settings = session_data["settings"]
+    llm = provider.chat_model(settings["model"], settings["temperature"], streaming=True)
+    condense_llm = provider.chat_model(settings["model"], 0)
+    prompt = build_persona_prompt(session_data["profile"])
     return ConversationalRetrievalChain.from_llm(
         llm=llm,
         retriever=session_data["retriever"],
+        condense_question_llm=condense_llm,
         return_source_documents=True,
-        combine_docs_chain_kwargs={"prompt": prompt},
+        return_generated_question=True,
+        combine_docs_chain_kwargs={"prompt": prompt, "document_prompt": CITED_DOCUMENT_PROMPT},
     )
 
 
+class TokenQueueHandler(AsyncCallbackHandler):
+    """Collects streamed LLM tokens so they can be relayed to the client."""
+
+    def __init__(self) -> None:
+        self.queue: asyncio.Queue = asyncio.Queue()
+
+    async def on_llm_new_token(self, token: str, **kwargs: Any) -> None:
+        if token:
+            await self.queue.put(token)
+
+
 def new_session() -> str:
     session_id = uuid.uuid4().hex
     tmp_dir = tempfile.mkdtemp(prefix=f"rag_{session_id}_")
@@ -88,7 +351,13 @@ def new_session() -> str:
         "retriever": None,
         "chain": None,
         "tmp_dir": tmp_dir,
-        "persona": None,
+        "profile": PersonaProfile().model_dump(),
+        "settings": SessionSettings().model_dump(),
+        "documents": 0,
+        "chunks": 0,
+        "files": {},
+        "lexical": None,
+        "starter_questions": [],
     }
     return session_id
 
@@ -99,32 +368,228 @@ def get_session(session_id: str) -> Dict[str, Any]:
     return sessions[session_id]
 
 
-def load_documents_to_tmp(files: List[UploadFile], tmp_dir: str) -> List[Any]:
-    docs = []
-    for f in files:
-        filename = f.filename or uuid.uuid4().hex
+def ndjson(event: Dict[str, Any]) -> str:
+    return json.dumps(event) + "\n"
+
+
+def save_uploads(files: List[UploadFile], tmp_dir: str) -> List[Tuple[str, str, str]]:
+    """Store each upload in a directory of its own, named by its new document id, so a
+    re-uploaded filename never overwrites an earlier file. Returns (id, filename, path)."""
+    names = [os.path.basename(f.filename or "") or uuid.uuid4().hex for f in files]
+    allowed = {".pdf", ".docx", ".txt", ".md"}
+    for filename in names:
         ext = os.path.splitext(filename)[1].lower()
-        allowed = {".pdf", ".docx", ".txt", ".md"}
         if ext not in allowed:
             raise HTTPException(status_code=400, detail=f"Unsupported file type: {ext}")
-        dst_path = os.path.join(tmp_dir, filename)
+    saved = []
+    for f, filename in zip(files, names):
+        document_id = uuid.uuid4().hex
+        os.makedirs(os.path.join(tmp_dir, document_id))
+        dst_path = os.path.join(tmp_dir, document_id, filename)
         with open(dst_path, "wb") as out:
             out.write(f.file.read())
-        if ext == ".pdf":
-            loader = PyPDFLoader(dst_path)
-            ld = loader.load()
-        elif ext == ".docx":
-            loader = Docx2txtLoader(dst_path)
-            ld = loader.load()
-        else:
-            loader = TextLoader(dst_path, autodetect_encoding=True)
-            ld = loader.load()
-        for d in ld:
-            meta = d.metadata or {}
-            meta.setdefault("source", filename)
-            d.metadata = meta
-        docs.extend(ld)
-    return docs
+        saved.append((document_id, filename, dst_path))
+    return saved
+
+
+def discard_upload(path: str) -> None:
+    # Each upload sits alone in its document's directory, so the directory goes with it
+    shutil.rmtree(os.path.dirname(path), ignore_errors=True)
+
+
+def load_document(filename: str, path: str) -> List[Any]:
+    ext = os.path.splitext(filename)[1].lower()
+    if ext == ".pdf":
+        loader = PyPDFLoader(path)
+    elif ext == ".docx":
+        loader = Docx2txtLoader(path)
+    else:
+        loader = TextLoader(path, autodetect_encoding=True)
+    ld = loader.load()
+    for d in ld:
+        meta = d.metadata or {}
+        meta.setdefault("source", filename)
+        d.metadata = meta
+    return ld
+
+
+def split_documents(docs: List[Any], settings: Dict[str, Any]) -> List[Any]:
+    splitter = RecursiveCharacterTextSplitter(
+        chunk_size=settings["chunk_size"],
+        chunk_overlap=settings["chunk_overlap"],
+    )
+    return splitter.split_documents(docs)
+
+
+def prepare_file(
+    document_id: str, filename: str, path: str, settings: Dict[str, Any]
+) -> Tuple[Dict[str, Any], List[Any]]:
+    """Parse and chunk one upload, returning its library record and its chunks."""
+    docs = load_document(filename, path)
+    chunks = split_documents(docs, settings)
+    ext = os.path.splitext(filename)[1].lower()
+    record = {
+        "id": document_id,
+        "filename": filename,
+        "type": ext.lstrip("."),
+        "pages": len(docs) if ext == ".pdf" else None,
+        "documents": len(docs),
+        "chunk_ids": [uuid.uuid4().hex for _ in chunks],
+        "uploaded_at": None,
+        "path": path,
+    }
+    for chunk, chunk_id in zip(chunks, record["chunk_ids"]):
+        chunk.metadata["document_id"] = record["id"]
+        chunk.metadata["chunk_id"] = chunk_id
+    return record, chunks
+
+
+def embed_chunks(chunks: List[Any], ids: List[str]) -> FAISS:
+    embeddings = provider.embeddings()
+    return FAISS.from_documents(chunks, embeddings, ids=ids)
+
+
+def refresh_chain(session: Dict[str, Any]) -> None:
+    if session["vectorstore"] is None:
+        session["retriever"] = None
+        session["chain"] = None
+        return
+    settings = session["settings"]
+    session["retriever"] = NumberedRetriever(
+        vectorstore=session["vectorstore"],
+        lexical=session["lexical"],
+        k=settings["k"],
+        search_type=settings["search_type"],
+        retrieval_mode=settings["retrieval_mode"],
+    )
+    session["chain"] = build_chain(session)
+
+
+def rebuild_lexical_index(session: Dict[str, Any]) -> None:
+    if session["vectorstore"] is None:
+        session["lexical"] = None
+        return
+    docstore = session["vectorstore"].docstore
+    docs = [docstore.search(cid) for r in session["files"].values() for cid in r["chunk_ids"]]
+    session["lexical"] = LexicalIndex(docs)
+
+
+def merge_index(
+    session: Dict[str, Any],
+    index: FAISS,
+    persona: Optional[str],
+    records: List[Dict[str, Any]],
+    questions: List[str],
+) -> None:
+    # Embeddings are built into a standalone index first, so a cancelled upload
+    # never leaves half of its chunks in the session's store.
+    if session["vectorstore"] is None:
+        session["vectorstore"] = index
+    else:
+        session["vectorstore"].merge_from(index)
+    if persona is not None:
+        session["profile"]["display_name"] = persona.strip()
+    if questions:
+        session["starter_questions"] = questions
+    uploaded_at = datetime.now(timezone.utc).isoformat()
+    for record in records:
+        record["uploaded_at"] = uploaded_at
+        session["files"][record["id"]] = record
+        session["documents"] += record["documents"]
+        session["chunks"] += len(record["chunk_ids"])
+    rebuild_lexical_index(session)
+    refresh_chain(session)
+
+
+def describe_file(record: Dict[str, Any]) -> Dict[str, Any]:
+    return {
+        "id": record["id"],
+        "filename": record["filename"],
+        "type": record["type"],
+        "pages": record["pages"],
+        "chunks": len(record["chunk_ids"]),
+        "uploaded_at": record["uploaded_at"],
+    }
+
+
+def upload_summary(session: Dict[str, Any], records: List[Dict[str, Any]]) -> Dict[str, Any]:
+    return {
+        "status": "ok",
+        "documents": sum(r["documents"] for r in records),
+        "chunks": sum(len(r["chunk_ids"]) for r in records),
+        "files": [describe_file(r) for r in records],
+        "starter_questions": session["starter_questions"],
+    }
+
+
+STARTER_QUESTIONS_PROMPT = (
+    "The excerpts below come from documents about one person or character.\n"
+    "Write between five and eight questions a museum visitor could ask this person.\n"
+    "Each question must be answerable from the excerpts, short, and addressed to them as \"you\".\n"
+    'Reply with a JSON object: {"questions": ["...", "..."]}\n\n'
+    "Excerpts:\n"
+)
+
+
+async def ask_for_questions(prompt: str, limit: int, model: str) -> List[str]:
+    # Best effort: suggestions are extras, so any failure just means there are none
+    llm = provider.chat_model(model, 0.7, json_mode=True)
+    try:
+        reply = await llm.ainvoke(prompt)
+        questions = json.loads(reply.content).get("questions")
+    except Exception:
+        return []
+    if not isinstance(questions, list):
+        return []
+    cleaned = []
+    for q in questions:
+        if isinstance(q, str) and q.strip() and q.strip() not in cleaned:
+            cleaned.append(q.strip())
+    return cleaned[:limit]
+
+
+async def generate_starter_questions(chunks: List[Any], model: str, sample: int = 10) -> List[str]:
+    step = max(1, len(chunks) // sample)
+    excerpts = "\n\n".join(c.page_content for c in chunks[::step][:sample])
+    return await ask_for_questions(STARTER_QUESTIONS_PROMPT + excerpts, limit=8, model=model)
+
+
+async def stream_upload(
+    session: Dict[str, Any],
+    saved: List[Tuple[str, str, str]],
+    persona: Optional[str],
+):
+    records = []
+    chunks = []
+    merged = False
+    try:
+        for document_id, filename, path in saved:
+            yield ndjson({"type": "phase", "phase": "parsing", "file": filename})
+            record, file_chunks = await asyncio.to_thread(
+                prepare_file, document_id, filename, path, session["settings"]
+            )
+            records.append(record)
+            chunks.extend(file_chunks)
+        if not chunks:
+            yield ndjson({"type": "error", "detail": "No documents were loaded"})
+            return
+        yield ndjson({"type": "phase", "phase": "embedding", "chunks": len(chunks)})
+        ids = [cid for r in records for cid in r["chunk_ids"]]
+        index = await asyncio.to_thread(embed_chunks, chunks, ids)
+        yield ndjson({"type": "phase", "phase": "questions"})
+        questions = await generate_starter_questions(chunks, session["settings"]["model"])
+        merge_index(session, index, persona, records, questions)
+        merged = True
+    except Exception as exc:
+        yield ndjson({"type": "error", "detail": str(exc) or "Upload failed"})
+        return
+    finally:
+        # Failed, empty and cancelled uploads (the client hung up and the generator was
+        # closed) leave no files behind
+        if not merged:
+            for _, _, path in saved:
+                discard_upload(path)
+    yield ndjson({"type": "done", **upload_summary(session, records)})
 
 
 @app.post("/session")
@@ -133,65 +598,430 @@ async def create_session():
     return {"session_id": sid}
 
 
+@app.get("/session/{session_id}")
+async def describe_session(session_id: str):
+    session = get_session(session_id)
+    return {
+        "session_id": session_id,
+        "persona": session["profile"]["display_name"] or None,
+        "profile": session["profile"],
+        "settings": session["settings"],
+        "documents": session["documents"],
+        "chunks": session["chunks"],
+        "turns": len(session["chat_history"]),
+        "starter_questions": session["starter_questions"],
+    }
+
+
 @app.post("/upload")
 async def upload_documents(
     session_id: str = Form(...),
     files: List[UploadFile] = File(...),
     persona: Optional[str] = Form(None),
+    stream: bool = Form(False),
 ):
-    ensure_openai_key()
+    ensure_provider_configured()
     session = get_session(session_id)
-    if persona is not None:
-        session["persona"] = persona
-    docs = load_documents_to_tmp(files, session["tmp_dir"])
-    if not docs:
-        raise HTTPException(status_code=400, detail="No documents were loaded")
-    splitter = RecursiveCharacterTextSplitter(chunk_size=1200, chunk_overlap=150)
-    chunks = splitter.split_documents(docs)
-    if session["vectorstore"] is None:
-        embeddings = OpenAIEmbeddings(model="text-embedding-3-small")
-        vs = FAISS.from_documents(chunks, embeddings)
-        session["vectorstore"] = vs
+    saved = save_uploads(files, session["tmp_dir"])
+    if stream:
+        return StreamingResponse(
+            stream_upload(session, saved, persona),
+            media_type="application/x-ndjson",
+            headers={"X-Accel-Buffering": "no"},
+        )
+    records = []
+    chunks = []
+    try:
+        for document_id, filename, path in saved:
+            record, file_chunks = prepare_file(document_id, filename, path, session["settings"])
+            records.append(record)
+            chunks.extend(file_chunks)
+        if not chunks:
+            raise HTTPException(status_code=400, detail="No documents were loaded")
+        ids = [cid for r in records for cid in r["chunk_ids"]]
+        index = embed_chunks(chunks, ids)
+        questions = await generate_starter_questions(chunks, session["settings"]["model"])
+    except BaseException:
+        for _, _, path in saved:
+            discard_upload(path)
+        raise
+    merge_index(session, index, persona, records, questions)
+    return upload_summary(session, records)
+
+
+@app.get("/session/{session_id}/documents")
+async def list_documents(session_id: str):
+    session = get_session(session_id)
+    return {"documents": [describe_file(r) for r in session["files"].values()]}
+
+
+def get_file_record(session: Dict[str, Any], document_id: str) -> Dict[str, Any]:
+    record = session["files"].get(document_id)
+    if record is None:
+        raise HTTPException(status_code=404, detail="Unknown document_id")
+    return record
+
+
+@app.get("/session/{session_id}/documents/{document_id}/file")
+async def document_file(session_id: str, document_id: str):
+    record = get_file_record(get_session(session_id), document_id)
+    if not os.path.isfile(record["path"]):
+        raise HTTPException(status_code=404, detail="Document file is no longer available")
+    return FileResponse(record["path"], filename=record["filename"], content_disposition_type="inline")
+
+
+@app.get("/session/{session_id}/chunks/{chunk_id}")
+async def chunk_context(session_id: str, chunk_id: str, window: int = 1):
+    session = get_session(session_id)
+    record = next((r for r in session["files"].values() if chunk_id in r["chunk_ids"]), None)
+    if record is None:
+        raise HTTPException(status_code=404, detail="Unknown chunk_id")
+    ids = record["chunk_ids"]
+    pos = ids.index(chunk_id)
+    window = max(0, min(window, 5))
+    docstore = session["vectorstore"].docstore
+
+    def describe_chunk(cid: str) -> Dict[str, Any]:
+        doc = docstore.search(cid)
+        return {
+            "id": cid,
+            "text": doc.page_content,
+            "page": display_page(doc.metadata.get("page")),
+        }
+
+    return {
+        "document_id": record["id"],
+        "filename": record["filename"],
+        "type": record["type"],
+        "chunk": describe_chunk(chunk_id),
+        "before": [describe_chunk(c) for c in ids[max(0, pos - window):pos]],
+        "after": [describe_chunk(c) for c in ids[pos + 1:pos + 1 + window]],
+    }
+
+
+@app.delete("/session/{session_id}/documents/{document_id}")
+async def delete_document(session_id: str, document_id: str):
+    session = get_session(session_id)
+    record = get_file_record(session, document_id)
+    del session["files"][document_id]
+    if session["files"]:
+        session["vectorstore"].delete(record["chunk_ids"])
     else:
-        session["vectorstore"].add_documents(chunks)
-    session["retriever"] = session["vectorstore"].as_retriever(search_kwargs={"k": 4})
-    session["chain"] = build_chain(session)
-    return {"status": "ok", "documents": len(docs), "chunks": len(chunks)}
+        session["vectorstore"] = None
+        session["starter_questions"] = []
+    session["documents"] -= record["documents"]
+    session["chunks"] -= len(record["chunk_ids"])
+    rebuild_lexical_index(session)
+    refresh_chain(session)
+    discard_upload(record["path"])
+    return {"status": "ok", "documents": session["documents"], "chunks": session["chunks"]}
+
+
+def display_page(page: Any) -> Any:
+    # Loaders number pages from zero; people read them from one
+    try:
+        if page is not None:
+            page = int(page) + 1
+    except Exception:
+        pass
+    return page
+
+
+def describe_citation(doc: Any) -> Dict[str, Any]:
+    meta = doc.metadata or {}
+    source = meta.get("source")
+    return {
+        "source": os.path.basename(source) if source else None,
+        "page": display_page(meta.get("page")),
+        "snippet": (doc.page_content or "")[:400],
+        "index": meta.get("citation"),
+        "document_id": meta.get("document_id"),
+        "chunk_id": meta.get("chunk_id"),
+    }
+
+
+def build_citations(src_docs: List[Any], answer: str) -> List[Dict[str, Any]]:
+    # Prefer the excerpts the answer actually cites; fall back to the top three
+    cited = {int(n) for n in CITATION_MARKER.findall(answer)}
+    selected = [d for d in src_docs if (d.metadata or {}).get("citation") in cited]
+    return [describe_citation(d) for d in selected or src_docs[:3]]
+
+
+FOLLOW_UP_PROMPT = (
+    "A visitor asked a question and got the answer below, drawn from the source excerpts that follow.\n"
+    "Suggest two or three short follow-up questions the visitor could ask next.\n"
+    "Only suggest questions the excerpts can answer, and do not repeat what the answer already covered.\n"
+    'Reply with a JSON object: {"questions": ["...", "..."]}\n\n'
+)
+
+
+async def generate_follow_ups(question: str, answer: str, src_docs: List[Any], model: str) -> List[str]:
+    if not answer or not src_docs:
+        return []
+    excerpts = "\n\n".join(d.page_content for d in src_docs)
+    prompt = (
+        FOLLOW_UP_PROMPT
+        + f"Question:\n{question}\n\nAnswer:\n{answer}\n\nSource excerpts:\n{excerpts}"
+    )
+    return await ask_for_questions(prompt, limit=3, model=model)
+
+
+def retrieval_trace(result: Dict[str, Any], mode: str) -> Dict[str, Any]:
+    # Everything the answer was built from, cited or not, for the retrieval inspector.
+    # The mode says what the scores measure: similarity, scaled BM25 or fused rank.
+    return {
+        "question": result.get("generated_question"),
+        "mode": mode,
+        "chunks": [
+            {**describe_citation(d), "text": d.page_content, "score": (d.metadata or {}).get("score")}
+            for d in result.get("source_documents", [])
+        ],
+    }
+
+
+def chat_inputs(session: Dict[str, Any], request: ChatRequest) -> Tuple[str, List[Tuple[str, str]]]:
+    # Returns the question to answer and the history leading up to it
+    if not request.regenerate:
+        return request.message, session["chat_history"]
+    if not session["chat_history"]:
+        raise HTTPException(status_code=400, detail="Nothing to regenerate")
+    return session["chat_history"][-1][0], session["chat_history"][:-1]
+
+
+def record_turn(session: Dict[str, Any], question: str, answer: str, regenerate: bool) -> int:
+    if regenerate and session["chat_history"]:
+        session["chat_history"][-1] = (question, answer)
+    else:
+        session["chat_history"].append((question, answer))
+    return len(session["chat_history"]) - 1
+
+
+def scoped_chain(session: Dict[str, Any], request: ChatRequest) -> ConversationalRetrievalChain:
+    # The session chain searches everything; a scoped request gets a one-off chain whose
+    # retriever only keeps chunks tagged with one of the requested document ids
+    if request.document_ids is None:
+        return session["chain"]
+    if not request.document_ids:
+        raise HTTPException(status_code=400, detail="Select at least one document")
+    unknown = [doc_id for doc_id in request.document_ids if doc_id not in session["files"]]
+    if unknown:
+        raise HTTPException(status_code=404, detail=f"Unknown document_id: {unknown[0]}")
+    retriever = session["retriever"].copy(update={"document_filter": list(request.document_ids)})
+    return build_chain({**session, "retriever": retriever})
+
+
+async def stream_chat(session: Dict[str, Any], request: ChatRequest, chain: ConversationalRetrievalChain):
+    question, history = chat_inputs(session, request)
+    handler = TokenQueueHandler()
+    task = asyncio.create_task(chain.ainvoke(
+        {"question": question, "chat_history": history},
+        config={"callbacks": [handler]},
+    ))
+    task.add_done_callback(lambda _: handler.queue.put_nowait(None))
+    try:
+        while True:
+            token = await handler.queue.get()
+            if token is None:
+                break
+            yield ndjson({"type": "token", "content": token})
+    finally:
+        # The client hung up (e.g. pressed Stop): abandon the LLM call. The turn never
+        # reaches chat_history, since that only happens once the answer completes.
+        if not task.done():
+            task.cancel()
+    try:
+        result = task.result()
+    except Exception as exc:
+        yield ndjson({"type": "error", "detail": str(exc) or "Chat failed"})
+        return
+    answer = result.get("answer", "")
+    src_docs = result.get("source_documents", [])
+    citations = build_citations(src_docs, answer)
+    # Recorded last, so hanging up while follow-ups are written still drops the turn
+    follow_ups = await generate_follow_ups(question, answer, src_docs, session["settings"]["model"])
+    turn = record_turn(session, question, answer, request.regenerate)
+    done = {
+        "type": "done",
+        "answer": answer,
+        "citations": citations,
+        "turn": turn,
+        "follow_ups": follow_ups,
+    }
+    if request.debug:
+        done["retrieval"] = retrieval_trace(result, chain.retriever.retrieval_mode)
+    yield ndjson(done)
 
 
 @app.post("/chat")
 async def chat(request: ChatRequest):
-    ensure_openai_key()
+    ensure_provider_configured()
     session = get_session(request.session_id)
     if session["vectorstore"] is None:
         raise HTTPException(status_code=400, detail="Upload documents before chatting")
     if session["chain"] is None:
-        if session.get("retriever") is None:
-            session["retriever"] = session["vectorstore"].as_retriever(search_kwargs={"k": 4})
-        session["chain"] = build_chain(session)
-    result = session["chain"]({
-        "question": request.message,
-        "chat_history": session["chat_history"],
-    })
+        refresh_chain(session)
+    chain = scoped_chain(session, request)
+    if request.stream:
+        # Validate eagerly so a bad regenerate request fails before the stream starts
+        chat_inputs(session, request)
+        return StreamingResponse(
+            stream_chat(session, request, chain),
+            media_type="application/x-ndjson",
+            # Stop Nginx from buffering the stream behind the /api proxy
+            headers={"X-Accel-Buffering": "no"},
+        )
+    question, history = chat_inputs(session, request)
+    try:
+        # Awaited, so one session's LLM call never holds up every other session's requests
+        result = await chain.ainvoke({"question": question, "chat_history": history})
+    except Exception as exc:
+        # Provider and network failures are the upstream's fault, not the request's
+        raise HTTPException(status_code=502, detail=str(exc) or "Could not reach the model")
     answer = result.get("answer", "")
     src_docs = result.get("source_documents", [])
-    citations = []
-    for d in src_docs[:3]:
-        source = d.metadata.get("source") if d.metadata else None
-        page = d.metadata.get("page") if d.metadata else None
-        try:
-            if page is not None:
-                page = int(page) + 1
-        except Exception:
-            pass
-        snippet = (d.page_content or "")[:400]
-        citations.append({
-            "source": os.path.basename(source) if source else None,
-            "page": page,
-            "snippet": snippet,
-        })
-    session["chat_history"].append((request.message, answer))
-    return {"answer": answer, "citations": citations}
+    citations = build_citations(src_docs, answer)
+    follow_ups = await generate_follow_ups(question, answer, src_docs, session["settings"]["model"])
+    turn = record_turn(session, question, answer, request.regenerate)
+    response = {"answer": answer, "citations": citations, "turn": turn, "follow_ups": follow_ups}
+    if request.debug:
+        response["retrieval"] = retrieval_trace(result, chain.retriever.retrieval_mode)
+    return response
+
+
+@app.put("/session/{session_id}/history")
+async def replace_history(session_id: str, request: HistoryReplace):
+    # Used when the client switches conversation branches or edits an earlier question
+    session = get_session(session_id)
+    session["chat_history"] = [(t.question, t.answer) for t in request.turns]
+    return {"status": "ok", "turns": len(session["chat_history"])}
+
+
+@app.post("/session/{session_id}/import")
+async def import_conversation(session_id: str, request: ConversationImport):
+    # Re-seeds a session from an exported transcript so follow-up questions keep context
+    session = get_session(session_id)
+    persona = request.persona.strip() if request.persona else ""
+    if persona:
+        session["profile"]["display_name"] = persona
+        if session["vectorstore"] is not None:
+            refresh_chain(session)
+    session["chat_history"] = [(t.question, t.answer) for t in request.turns]
+    return {
+        "status": "ok",
+        "persona": session["profile"]["display_name"] or None,
+        "turns": len(session["chat_history"]),
+    }
+
+
+@app.get("/session/{session_id}/persona")
+async def get_persona(session_id: str):
+    return get_session(session_id)["profile"]
+
+
+@app.put("/session/{session_id}/persona")
+async def update_persona(session_id: str, profile: PersonaProfile):
+    session = get_session(session_id)
+    session["profile"] = profile.model_dump()
+    # The prompt is baked into the chain, so rebuild it to pick up the new profile
+    if session["vectorstore"] is not None:
+        refresh_chain(session)
+    return session["profile"]
+
+
+PERSONA_QUERY = "who this person is: full name, birth and death, life story, how they speak"
+
+PERSONA_SUGGESTION_PROMPT = (
+    "The numbered excerpts below come from documents about one person or character.\n"
+    "Work out who the documents are mostly about and describe them using only the excerpts.\n"
+    "Reply with a JSON object with these keys, citing the excerpt numbers that support each value:\n"
+    '  "name": {"value": "their full name", "sources": [1]},\n'
+    '  "life_dates": {"value": "e.g. 1815-1852", "sources": [2]},\n'
+    '  "biography": {"value": "two or three sentences", "sources": [1, 3]},\n'
+    '  "phrases": [{"value": "a phrase or saying typical of how they speak, quoted exactly", "sources": [4]}]\n'
+    "Leave a value empty, with no sources, when the excerpts do not support it. Give at most five phrases.\n\n"
+    "Excerpts:\n"
+)
+
+
+def persona_excerpts(session: Dict[str, Any], limit: int = 12) -> List[Document]:
+    # Biographical passages first, then each file's opening chunks, which usually introduce the subject
+    store = session["vectorstore"]
+    picked: Dict[str, Document] = {}
+    for doc in store.similarity_search(PERSONA_QUERY, k=6):
+        picked[doc.metadata.get("chunk_id")] = doc
+    for record in session["files"].values():
+        for cid in record["chunk_ids"][:2]:
+            picked.setdefault(cid, store.docstore.search(cid))
+    return NumberedRetriever.number(list(picked.values())[:limit])
+
+
+def suggestion_field(raw: Any, excerpts: List[Document]) -> Dict[str, Any]:
+    # The model's output is untrusted: keep a string value and only the excerpt numbers that exist
+    raw = raw if isinstance(raw, dict) else {}
+    value = raw.get("value").strip() if isinstance(raw.get("value"), str) else ""
+    sources = raw.get("sources") if isinstance(raw.get("sources"), list) else []
+    numbers = sorted({n for n in sources if isinstance(n, int) and 1 <= n <= len(excerpts)})
+    return {
+        "value": value,
+        "citations": [describe_citation(excerpts[n - 1]) for n in numbers] if value else [],
+    }
+
+
+@app.post("/session/{session_id}/persona/suggestion")
+async def suggest_persona(session_id: str):
+    ensure_provider_configured()
+    session = get_session(session_id)
+    if session["vectorstore"] is None:
+        raise HTTPException(status_code=400, detail="Upload documents before suggesting a persona")
+    excerpts = await asyncio.to_thread(persona_excerpts, session)
+    llm = provider.chat_model(session["settings"]["model"], 0, json_mode=True)
+    context = "\n\n".join(
+        CITED_DOCUMENT_PROMPT.format(citation=d.metadata["citation"], page_content=d.page_content)
+        for d in excerpts
+    )
+    try:
+        reply = await llm.ainvoke(PERSONA_SUGGESTION_PROMPT + context)
+    except Exception as exc:
+        # Provider and network failures are the upstream's fault, not the request's
+        raise HTTPException(status_code=502, detail=str(exc) or "Could not reach the model")
+    try:
+        data = json.loads(reply.content)
+    except (TypeError, ValueError):
+        raise HTTPException(status_code=502, detail="Could not extract a persona profile")
+    if not isinstance(data, dict):
+        raise HTTPException(status_code=502, detail="Could not extract a persona profile")
+    phrases = [suggestion_field(p, excerpts) for p in data.get("phrases") or [] if isinstance(p, dict)]
+    return {
+        "name": suggestion_field(data.get("name"), excerpts),
+        "life_dates": suggestion_field(data.get("life_dates"), excerpts),
+        "biography": suggestion_field(data.get("biography"), excerpts),
+        "phrases": [p for p in phrases if p["value"]][:5],
+    }
+
+
+@app.get("/session/{session_id}/settings")
+async def get_settings(session_id: str):
+    return get_session(session_id)["settings"]
+
+
+@app.put("/session/{session_id}/settings")
+async def update_settings(session_id: str, settings: SessionSettings):
+    session = get_session(session_id)
+    session["settings"] = settings.model_dump()
+    if session["vectorstore"] is not None:
+        refresh_chain(session)
+    return session["settings"]
+
+
+@app.put("/session/{session_id}/history/{turn}")
+async def update_history_turn(session_id: str, turn: int, request: HistoryTurnUpdate):
+    # Lets the client pick which regenerated answer the conversation continues from
+    session = get_session(session_id)
+    history = session["chat_history"]
+    if turn < 0 or turn >= len(history):
+        raise HTTPException(status_code=404, detail="Unknown turn")
+    history[turn] = (history[turn][0], request.answer)
+    return {"status": "ok"}
 
 
 @app.post("/reset")
@@ -0,0 +1,253 @@
+"""Chat model and embedding backends, chosen once at startup with LLM_PROVIDER:
+
+- openai: the OpenAI API (OPENAI_API_KEY, optionally OPENAI_BASE_URL)
+- local: any OpenAI-compatible server, e.g. Ollama, vLLM or LM Studio
+- fake: deterministic and offline, with hash embeddings and templated answers
+"""
+
+import os
+import re
+import json
+import hashlib
+import math
+from collections import Counter
+from typing import Any, Dict, List, Optional, Type
+
+from langchain_core.callbacks import AsyncCallbackManagerForLLMRun, CallbackManagerForLLMRun
+from langchain_core.embeddings import Embeddings
+from langchain_core.language_models.chat_models import BaseChatModel
+from langchain_core.messages import AIMessage, BaseMessage
+from langchain_core.outputs import ChatGeneration, ChatResult
+from langchain_openai import ChatOpenAI, OpenAIEmbeddings
+
+OPENAI_EMBEDDING_MODEL = "text-embedding-3-small"
+
+
+def json_mode_kwargs(json_mode: bool) -> Dict[str, Any]:
+    return {"response_format": {"type": "json_object"}} if json_mode else {}
+
+
+class Provider:
+    """Builds the chat models and embeddings used for answers, suggestions and indexing."""
+
+    name = ""
+
+    def missing_config(self) -> Optional[str]:
+        # Why the provider cannot be used yet, if it cannot
+        return None
+
+    def chat_model(
+        self, model: str, temperature: float, streaming: bool = False, json_mode: bool = False
+    ) -> BaseChatModel:
+        raise NotImplementedError
+
+    def embeddings(self) -> Embeddings:
+        raise NotImplementedError
+
+
+class OpenAIProvider(Provider):
+    name = "openai"
+
+    def missing_config(self) -> Optional[str]:
+        if not os.getenv("OPENAI_API_KEY"):
+            return "OPENAI_API_KEY is not set"
+        return None
+
+    def chat_model(
+        self, model: str, temperature: float, streaming: bool = False, json_mode: bool = False
+    ) -> BaseChatModel:
+        return ChatOpenAI(
+            model=model,
+            temperature=temperature,
+            streaming=streaming,
+            model_kwargs=json_mode_kwargs(json_mode),
+        )
+
+    def embeddings(self) -> Embeddings:
+        return OpenAIEmbeddings(model=OPENAI_EMBEDDING_MODEL)
+
+
+class LocalProvider(Provider):
+    """An OpenAI-compatible server. It serves its own models, so LOCAL_CHAT_MODEL replaces
+    the model chosen in the session settings."""
+
+    name = "local"
+
+    def __init__(self) -> None:
+        self.base_url = os.getenv("LOCAL_LLM_BASE_URL", "")
+        # Most local servers ignore the key, but the OpenAI client insists on one
+        self.api_key = os.getenv("LOCAL_LLM_API_KEY") or "not-needed"
+        self.chat_model_name = os.getenv("LOCAL_CHAT_MODEL", "")
+        self.embedding_model = os.getenv("LOCAL_EMBEDDING_MODEL", "")
+
+    def missing_config(self) -> Optional[str]:
+        for variable, value in (
+            ("LOCAL_LLM_BASE_URL", self.base_url),
+            ("LOCAL_CHAT_MODEL", self.chat_model_name),
+            ("LOCAL_EMBEDDING_MODEL", self.embedding_model),
+        ):
+            if not value:
+                return f"{variable} is not set"
+        return None
+
+    def chat_model(
+        self, model: str, temperature: float, streaming: bool = False, json_mode: bool = False
+    ) -> BaseChatModel:
+        return ChatOpenAI(
+            model=self.chat_model_name,
+            temperature=temperature,
+            streaming=streaming,
+            base_url=self.base_url,
+            api_key=self.api_key,
+            model_kwargs=json_mode_kwargs(json_mode),
+        )
+
+    def embeddings(self) -> Embeddings:
+        # Sends plain strings; the token arrays used for OpenAI are rejected by most local servers
+        return OpenAIEmbeddings(
+            model=self.embedding_model,
+            base_url=self.base_url,
+            api_key=self.api_key,
+            check_embedding_ctx_length=False,
+        )
+
+
+HASH_DIMENSIONS = 256
+WORD_PATTERN = re.compile(r"\w+")
+
+
+class HashEmbeddings(Embeddings):
+    """Bag-of-words vectors hashed into a fixed size, so texts sharing words land close together."""
+
+    def __init__(self, size: int = HASH_DIMENSIONS) -> None:
+        self.size = size
+
+    def embed(self, text: str) -> List[float]:
+        vector = [0.0] * self.size
+        for word in WORD_PATTERN.findall(text.lower()):
+            digest = hashlib.md5(word.encode("utf-8")).digest()
+            index = int.from_bytes(digest[:4], "big") % self.size
+            vector[index] += 1.0 if digest[4] & 1 else -1.0
+        norm = math.sqrt(sum(v * v for v in vector))
+        return [v / norm for v in vector] if norm else vector
+
+    def embed_documents(self, texts: List[str]) -> List[List[float]]:
+        return [self.embed(t) for t in texts]
+
+    def embed_query(self, text: str) -> List[float]:
+        return self.embed(text)
+
+
+# The standalone-question prompt of ConversationalRetrievalChain ends with these lines
+CONDENSE_INPUT = re.compile(r"Follow Up Input: (.*)\nStandalone question:\s*$", re.S)
+# Retrieved chunks reach the answer prompt as "[n] text", one per paragraph
+NUMBERED_EXCERPT = re.compile(r"^\[(\d+)\] (.+)$", re.M)
+EXCERPTS_HEADING = re.compile(r"^(?:source )?excerpts:[ \t]*$", re.I | re.M)
+SENTENCE_END = re.compile(r"(?<=[.!?])\s")
+TOPIC_WORD = re.compile(r"\b[A-Z][a-z]{3,}\b")
+COMMON_CAPITALISED = {
+    "After", "Before", "From", "Here", "There", "These", "They", "Their", "Then", "This",
+    "That", "Those", "What", "When", "Where", "Which", "While", "With",
+}
+
+
+def first_sentence(text: str, limit: int = 200) -> str:
+    sentence = SENTENCE_END.split(text.strip(), maxsplit=1)[0]
+    return sentence if len(sentence) <= limit else sentence[:limit].rstrip() + "..."
+
+
+def topics(text: str, limit: int) -> List[str]:
+    # Capitalised words that recur in the excerpts, most frequent first
+    counts = Counter(w for w in TOPIC_WORD.findall(text) if w not in COMMON_CAPITALISED)
+    return [w for w, _ in counts.most_common(limit)]
+
+
+def fake_answer(prompt: str) -> str:
+    excerpts = NUMBERED_EXCERPT.findall(prompt)
+    if not excerpts:
+        return "I am afraid I cannot recall anything about that."
+    recalled = " ".join(f"{first_sentence(text)} [{n}]" for n, text in excerpts[:2])
+    return f"From what I remember: {recalled}"
+
+
+def fake_json(prompt: str) -> Dict[str, Any]:
+    # One object serves every JSON request the app makes: question lists and persona profiles.
+    # The profile is left empty, which the app treats as "the documents do not say".
+    excerpts = EXCERPTS_HEADING.split(prompt)[-1]
+    empty = {"value": "", "sources": []}
+    return {
+        "questions": [f"What can you tell me about {t}?" for t in topics(excerpts, 5)],
+        "name": empty,
+        "life_dates": empty,
+        "biography": empty,
+        "phrases": [],
+    }
+
+
+class FakeChatModel(BaseChatModel):
+    """Answers from the prompt alone: the same prompt always gets the same reply."""
+
+    streaming: bool = False
+    json_mode: bool = False
+
+    @property
+    def _llm_type(self) -> str:
+        return "fake"
+
+    def reply(self, messages: List[BaseMessage]) -> str:
+        prompt = "\n".join(m.content for m in messages if isinstance(m.content, str))
+        if self.json_mode:
+            return json.dumps(fake_json(prompt))
+        condensed = CONDENSE_INPUT.search(prompt)
+        if condensed:
+            return condensed.group(1).strip()
+        return fake_answer(prompt)
+
+    def _generate(
+        self,
+        messages: List[BaseMessage],
+        stop: Optional[List[str]] = None,
+        run_manager: Optional[CallbackManagerForLLMRun] = None,
+        **kwargs: Any,
+    ) -> ChatResult:
+        return ChatResult(generations=[ChatGeneration(message=AIMessage(content=self.reply(messages)))])
+
+    async def _agenerate(
+        self,
+        messages: List[BaseMessage],
+        stop: Optional[List[str]] = None,
+        run_manager: Optional[AsyncCallbackManagerForLLMRun] = None,
+        **kwargs: Any,
+    ) -> ChatResult:
+        text = self.reply(messages)
+        if self.streaming and run_manager:
+            # Word by word, so the client sees a stream like a real model's
+            for token in re.findall(r"\S+\s*", text):
+                await run_manager.on_llm_new_token(token)
+        return ChatResult(generations=[ChatGeneration(message=AIMessage(content=text))])
+
+
+class FakeProvider(Provider):
+    name = "fake"
+
+    def chat_model(
+        self, model: str, temperature: float, streaming: bool = False, json_mode: bool = False
+    ) -> BaseChatModel:
+        return FakeChatModel(streaming=streaming, json_mode=json_mode)
+
+    def embeddings(self) -> Embeddings:
+        return HashEmbeddings()
+
+
+PROVIDERS: Dict[str, Type[Provider]] = {
+    "openai": OpenAIProvider,
+    "local": LocalProvider,
+    "fake": FakeProvider,
+}
+
+
+def load_provider() -> Provider:
+    name = os.getenv("LLM_PROVIDER", "openai").strip().lower()
+    if name not in PROVIDERS:
+        raise ValueError(f"Unknown LLM_PROVIDER {name!r}; expected one of {', '.join(PROVIDERS)}")
+    return PROVIDERS[name]()
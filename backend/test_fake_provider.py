@@ -0,0 +1,111 @@
+"""End-to-end smoke test over the offline fake provider: no API key or network needed.
+
+Run from the repository root with `python -m pytest backend`.
+"""
+
+import json
+import os
+
+os.environ["LLM_PROVIDER"] = "fake"
+
+from fastapi.testclient import TestClient  # noqa: E402
+
+from backend.main import app  # noqa: E402
+
+LETTER = (
+    "Babbage showed me the Analytical Engine in his drawing room. "
+    "The Analytical Engine weaves algebraic patterns just as the Jacquard loom weaves flowers and leaves.\n\n"
+    "I wrote my Notes on the Analytical Engine over the summer, at the request of Babbage. "
+    "Note G describes how the Engine might compute the Bernoulli numbers."
+)
+
+client = TestClient(app)
+
+
+def events(response):
+    return [json.loads(line) for line in response.iter_lines() if line]
+
+
+def new_session() -> str:
+    return client.post("/session").json()["session_id"]
+
+
+def upload(session_id: str, filename: str = "letters.txt") -> dict:
+    with client.stream(
+        "POST",
+        "/upload",
+        data={"session_id": session_id, "stream": "true"},
+        files={"files": (filename, LETTER.encode("utf-8"), "text/plain")},
+    ) as response:
+        assert response.status_code == 200
+        stream = events(response)
+    assert [e["phase"] for e in stream if e["type"] == "phase"] == ["parsing", "embedding", "questions"]
+    assert stream[-1]["type"] == "done", stream[-1]
+    return stream[-1]
+
+
+def test_upload_indexes_the_file_and_suggests_questions():
+    session_id = new_session()
+    done = upload(session_id)
+    assert done["documents"] == 1
+    assert done["chunks"] > 0
+    assert done["starter_questions"]
+
+    documents = client.get(f"/session/{session_id}/documents").json()["documents"]
+    assert [d["filename"] for d in documents] == ["letters.txt"]
+    file = client.get(f"/session/{session_id}/documents/{documents[0]['id']}/file")
+    assert file.status_code == 200
+    assert file.text == LETTER
+
+
+def test_reuploading_a_filename_keeps_both_documents():
+    session_id = new_session()
+    upload(session_id)
+    upload(session_id)
+    documents = client.get(f"/session/{session_id}/documents").json()["documents"]
+    assert len({d["id"] for d in documents}) == 2
+    for d in documents:
+        assert client.get(f"/session/{session_id}/documents/{d['id']}/file").status_code == 200
+
+
+def test_streamed_chat_cites_the_scoped_document():
+    session_id = new_session()
+    upload(session_id)
+    upload(session_id, "notes.txt")
+    documents = client.get(f"/session/{session_id}/documents").json()["documents"]
+    notes = next(d["id"] for d in documents if d["filename"] == "notes.txt")
+
+    with client.stream(
+        "POST",
+        "/chat",
+        json={
+            "session_id": session_id,
+            "message": "What did the Analytical Engine weave?",
+            "stream": True,
+            "debug": True,
+            "document_ids": [notes],
+        },
+    ) as response:
+        assert response.status_code == 200
+        stream = events(response)
+    tokens = [e["content"] for e in stream if e["type"] == "token"]
+    done = stream[-1]
+    assert done["type"] == "done", done
+    assert "".join(tokens) == done["answer"]
+    assert "[1]" in done["answer"]
+    assert done["citations"]
+    assert {c["document_id"] for c in done["citations"]} == {notes}
+    assert done["retrieval"]["mode"] == "hybrid"
+    assert done["turn"] == 0
+    assert isinstance(done["follow_ups"], list)
+
+
+def test_persona_suggestion_reads_the_documents():
+    session_id = new_session()
+    assert client.post(f"/session/{session_id}/persona/suggestion").status_code == 400
+    upload(session_id)
+    response = client.post(f"/session/{session_id}/persona/suggestion")
+    assert response.status_code == 200
+    suggestion = response.json()
+    assert set(suggestion) == {"name", "life_dates", "biography", "phrases"}
+    assert suggestion["name"] == {"value": "", "citations": []}
@@ -1,194 +1,794 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { DocumentUpload } from './components/DocumentUpload';
 import { ChatArea } from './components/ChatArea';
 import { CitationPanel } from './components/CitationPanel';
+import { CitationViewer } from './components/CitationViewer';
+import { RetrievalPanel } from './components/RetrievalPanel';
 import { SettingsPanel } from './components/SettingsPanel';
+import { DocumentLibrary } from './components/DocumentLibrary';
+import { ConversationSidebar } from './components/ConversationSidebar';
+import { TranscriptMenu } from './components/TranscriptMenu';
+import { PersonaEditor } from './components/PersonaEditor';
 import { Button } from './components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './components/ui/tabs';
 import { Alert, AlertDescription } from './components/ui/alert';
 import { Toaster, toast } from 'sonner';
-import { Settings, RotateCcw } from 'lucide-react';
+import { Settings, RotateCcw, UserRound } from 'lucide-react';
+import { SidebarProvider, SidebarTrigger } from './components/ui/sidebar';
+import * as api from './lib/api';
+import type { AnswerVariant, Citation, Message, RetrievalTrace } from './lib/types';
+import { historyTurns, startBranch, switchBranch, withTurns } from './lib/branches';
+import { requestDocumentIds } from './lib/scope';
+import {
+  TranscriptError,
+  TranscriptFile,
+  TranscriptFormat,
+  exportTranscript,
+  parseTranscriptFile,
+  transcriptMessages,
+} from './lib/transcript';
+import {
+  StoredSession,
+  createStoredSession,
+  loadStoredWorkspace,
+  saveStoredWorkspace,
+} from './lib/sessionStore';
 import LogoImage from '../ChatGPT Image Nov 9, 2025, 03_33_07 PM.png';
 
 export type Theme = 'modern' | 'historical';
 
-export interface Message {
-  id: string;
-  role: 'user' | 'assistant';
-  content: string;
-  citations?: Citation[];
-  timestamp: Date;
-}
-
-export interface Citation {
-  filename: string;
-  page?: number;
-  snippet: string;
+export interface UploadFileProgress {
+  name: string;
+  size: number;
+  percent: number;
+  status: 'uploading' | 'uploaded' | 'parsing' | 'parsed' | 'embedding' | 'questions' | 'done' | 'error' | 'cancelled';
 }
 
 export default function App() {
   const [theme, setTheme] = useState<Theme>('historical');
   const [sessionId, setSessionId] = useState<string>('');
-  const [persona, setPersona] = useState<string>('');
+  const [sessions, setSessions] = useState<StoredSession[]>([]);
+  const [profile, setProfile] = useState<api.PersonaProfile>(api.emptyPersonaProfile);
+  const [settings, setSettings] = useState<api.SessionSettings>(api.defaultSessionSettings);
   const [chatHistory, setChatHistory] = useState<Message[]>([]);
   const [documentsUploaded, setDocumentsUploaded] = useState(false);
   const [documentCount, setDocumentCount] = useState(0);
   const [chunkCount, setChunkCount] = useState(0);
+  const [starterQuestions, setStarterQuestions] = useState<string[]>([]);
+  const [scope, setScope] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string>('');
   const [settingsOpen, setSettingsOpen] = useState(false);
+  const [personaEditorOpen, setPersonaEditorOpen] = useState(false);
+  // Kept with the session it was extracted for, so switching conversations hides it
+  const [personaSuggestion, setPersonaSuggestion] = useState<{ sessionId: string; suggestion: api.PersonaSuggestion } | null>(null);
+  const [isSuggesting, setIsSuggesting] = useState(false);
   const [selectedCitations, setSelectedCitations] = useState<Citation[]>([]);
+  const [citedAnswer, setCitedAnswer] = useState('');
+  const [selectedRetrieval, setSelectedRetrieval] = useState<RetrievalTrace | null>(null);
+  const [inspectRetrieval, setInspectRetrieval] = useState(false);
+  const [focusedCitation, setFocusedCitation] = useState<Citation | null>(null);
+  const [viewerCitation, setViewerCitation] = useState<Citation | null>(null);
   const [uploadResetKey, setUploadResetKey] = useState(0);
+  const [documents, setDocuments] = useState<api.DocumentInfo[]>([]);
+  const [uploadProgress, setUploadProgress] = useState<UploadFileProgress[]>([]);
+  const lastUploadRef = useRef<{ files: File[]; persona: string } | null>(null);
+  const uploadAbortRef = useRef<AbortController | null>(null);
+  const chatAbortRef = useRef<AbortController | null>(null);
+  const persona = profile.display_name;
 
-  const API_BASE: string = (import.meta as any)?.env?.VITE_API_BASE ?? '/api';
+  const createSession = async (): Promise<StoredSession> => {
+    const data = await api.createSession();
+    return createStoredSession(data.session_id);
+  };
 
-  // Bootstrap session on mount
+  // Refresh a stored session from the backend; null if the server no longer has it
+  const fetchSession = async (stored: StoredSession): Promise<StoredSession | null> => {
+    let data: api.SessionInfo;
+    try {
+      data = await api.getSession(stored.sessionId);
+    } catch (err) {
+      if (api.isSessionExpired(err)) return null;
+      throw err;
+    }
+    return {
+      ...stored,
+      persona: data.persona || stored.persona,
+      profile: data.profile ?? stored.profile,
+      settings: data.settings ?? stored.settings,
+      documentCount: data.documents || 0,
+      chunkCount: data.chunks || 0,
+      starterQuestions: data.starter_questions ?? stored.starterQuestions,
+    };
+  };
+
+  const applySession = (session: StoredSession) => {
+    setSessionId(session.sessionId);
+    setProfile(session.profile);
+    setSettings(session.settings);
+    setDocumentCount(session.documentCount);
+    setChunkCount(session.chunkCount);
+    setStarterQuestions(session.starterQuestions);
+    setScope(session.scope);
+    setDocumentsUploaded(session.chunkCount > 0);
+    setChatHistory(session.chatHistory);
+    setSelectedCitations([]);
+    setSelectedRetrieval(null);
+    setCitedAnswer('');
+    setFocusedCitation(null);
+    setViewerCitation(null);
+    setError('');
+    setUploadResetKey((prev) => prev + 1);
+    setUploadProgress([]);
+  };
+
+  const startNewSession = async () => {
+    const session = await createSession();
+    setSessions(prev => [session, ...prev]);
+    applySession(session);
+  };
+
+  // Starts a fresh backend session in place of an expired one, keeping its conversation
+  const replaceSession = async (expired: StoredSession): Promise<StoredSession> => {
+    const fresh = await createSession();
+    const replacement: StoredSession = {
+      ...fresh,
+      title: expired.title,
+      persona: expired.profile.display_name,
+      profile: expired.profile,
+      settings: expired.settings,
+      scope: expired.scope,
+      // The new backend session has no turns yet, so old turn numbers no longer apply
+      chatHistory: expired.chatHistory.filter(m => !m.isStreaming).map(m => ({ ...m, turn: undefined })),
+    };
+    setSessions(prev => [replacement, ...prev.filter(s => s.sessionId !== expired.sessionId)]);
+    applySession(replacement);
+    // Best effort: the profile is re-applied so a re-upload answers in the same voice
+    api.updatePersona(replacement.sessionId, expired.profile).catch(() => {});
+    api.updateSettings(replacement.sessionId, expired.settings).catch(() => {});
+    return replacement;
+  };
+
+  // The backend forgot this session (e.g. after a restart): start a fresh one in its
+  // place, keeping the visible conversation, and offer to re-send the last upload.
+  const recoverExpiredSession = async (nextProfile = profile) => {
+    try {
+      const current = sessions.find(s => s.sessionId === sessionId) ?? createStoredSession(sessionId);
+      const replacement = await replaceSession({ ...current, profile: nextProfile, settings, scope, chatHistory });
+      const lastUpload = lastUploadRef.current;
+      setError('Your session expired on the server, so a new one was started. Upload your documents again to continue.');
+      toast.error('Session expired', {
+        description: 'A new session was started. Your documents need to be uploaded again.',
+        action: lastUpload
+          ? { label: 'Re-upload', onClick: () => handleUpload(lastUpload.files, lastUpload.persona, replacement.sessionId) }
+          : undefined,
+      });
+    } catch (err) {
+      setError(api.describeError(err, 'Could not start a new session. Please refresh.'));
+      toast.error('Session recovery failed');
+    }
+  };
+
+  // Restore the previously active session on mount, or bootstrap a new one
   useEffect(() => {
-    const createSession = async () => {
+    const bootstrap = async () => {
+      const workspace = loadStoredWorkspace();
+      setSessions(workspace.sessions);
+      const stored = workspace.sessions.find(s => s.sessionId === workspace.activeSessionId);
+      if (stored) {
+        let restored: StoredSession | null;
+        try {
+          restored = await fetchSession(stored);
+        } catch (err) {
+          // Unreachable is not expired: show the saved conversation and let later calls retry
+          applySession(stored);
+          setError(api.describeError(err, 'Could not restore the session. Please refresh.'));
+          toast.error('Could not reach the server');
+          return;
+        }
+        if (restored) {
+          applySession(restored);
+          toast.success('Session restored');
+          return;
+        }
+        try {
+          await replaceSession(stored);
+          setError('Your session expired on the server, so a new one was started. Upload your documents again to continue.');
+          toast.info('Previous session expired, starting a new one');
+          return;
+        } catch {
+          // Fall through and try once more with a blank session
+        }
+      }
       try {
-        const res = await fetch(`${API_BASE}/session`, { method: 'POST' });
-        if (!res.ok) throw new Error('Failed to create session');
-        const data = await res.json();
-        setSessionId(data.session_id);
+        await startNewSession();
         toast.success('Session initialized');
-      } catch (e) {
-        setError('Could not initialize session. Please refresh.');
+      } catch (err) {
+        setError(`Could not initialize session: ${api.describeError(err, 'please refresh the page.')}`);
         toast.error('Session initialization failed');
       }
     };
-    createSession();
+    bootstrap();
   }, []);
 
+  // Mirror the active session's finished state into the conversation list
+  useEffect(() => {
+    if (!sessionId || chatHistory.some(m => m.isStreaming)) return;
+    setSessions(prev => prev.map(s => (
+      s.sessionId === sessionId
+        ? {
+            ...s,
+            persona,
+            profile,
+            settings,
+            documentCount,
+            chunkCount,
+            starterQuestions,
+            scope,
+            chatHistory,
+            updatedAt: chatHistory.length ? chatHistory[chatHistory.length - 1].timestamp : s.updatedAt,
+          }
+        : s
+    )));
+  }, [sessionId, persona, profile, settings, documentCount, chunkCount, starterQuestions, scope, chatHistory]);
+
+  // Keep every conversation in localStorage so a reload can resume
+  useEffect(() => {
+    if (!sessionId) return;
+    saveStoredWorkspace({ activeSessionId: sessionId, sessions });
+  }, [sessionId, sessions]);
+
+  // Load the document library whenever the active session changes
+  useEffect(() => {
+    if (!sessionId) return;
+    let cancelled = false;
+    setDocuments([]);
+    api.listDocuments(sessionId)
+      .then((data) => {
+        if (!cancelled) setDocuments(data.documents);
+      })
+      .catch(() => {
+        // The library stays empty; upload and chat report their own errors
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId]);
+
   // Apply theme to document
   useEffect(() => {
     document.documentElement.setAttribute('data-theme', theme);
   }, [theme]);
 
-  const handleUpload = async (files: File[], personaName: string) => {
+  const handleUpload = async (files: File[], personaName: string, targetSessionId = sessionId) => {
     setIsLoading(true);
     setError('');
-    
+    lastUploadRef.current = { files, persona: personaName };
+    const controller = new AbortController();
+    uploadAbortRef.current = controller;
+
+    // Files travel in one multipart body in order, so each file's share of the
+    // sent bytes follows from where it starts in the running total.
+    const totalSize = files.reduce((sum, f) => sum + f.size, 0);
+    const offsets = files.map((_, i) => files.slice(0, i).reduce((sum, f) => sum + f.size, 0));
+    const updateFiles = (update: (file: UploadFileProgress, index: number) => UploadFileProgress) => {
+      setUploadProgress(prev => prev.map(update));
+    };
+    setUploadProgress(files.map(f => ({ name: f.name, size: f.size, percent: 0, status: 'uploading' })));
+
     try {
-      const form = new FormData();
-      form.append('session_id', sessionId);
-      if (personaName) form.append('persona', personaName);
-      for (const f of files) {
-        form.append('files', f);
-      }
-      const res = await fetch(`${API_BASE}/upload`, {
-        method: 'POST',
-        body: form,
-      });
-      if (!res.ok) {
-        const errText = await res.text();
-        throw new Error(errText || 'Upload failed');
-      }
-      const data = await res.json();
-      setPersona(personaName || '');
-      setDocumentCount(data.documents || 0);
-      setChunkCount(data.chunks || 0);
+      const data = await api.uploadDocuments(targetSessionId, files, personaName, {
+        onUploadProgress: (loaded, total) => {
+          const sent = total ? (loaded / total) * totalSize : 0;
+          updateFiles((file, i) => {
+            const percent = file.size
+              ? Math.min(100, Math.max(0, ((sent - offsets[i]) / file.size) * 100))
+              : 100;
+            return { ...file, percent, status: percent >= 100 ? 'uploaded' : 'uploading' };
+          });
+        },
+        onPhase: (event) => {
+          if (event.phase === 'parsing') {
+            updateFiles(file => ({
+              ...file,
+              percent: 100,
+              status: file.name === event.file ? 'parsing' : file.status === 'parsing' ? 'parsed' : file.status,
+            }));
+          } else {
+            // 'embedding', then 'questions' while starter questions are written
+            updateFiles(file => ({ ...file, percent: 100, status: event.phase }));
+          }
+        },
+      }, { signal: controller.signal });
+      updateFiles(file => ({ ...file, percent: 100, status: 'done' }));
+      if (personaName) setProfile(prev => ({ ...prev, display_name: personaName }));
+      setDocumentCount(prev => prev + data.documents);
+      setChunkCount(prev => prev + data.chunks);
+      setDocuments(prev => [...prev, ...data.files]);
+      if (data.starter_questions.length) setStarterQuestions(data.starter_questions);
       setDocumentsUploaded(true);
       toast.success(`Uploaded ${data.documents} document(s), indexed ${data.chunks} chunks`);
+      // Nobody was named: propose a profile from the documents in the background
+      if (!personaName && !profile.display_name) requestPersonaSuggestion(targetSessionId, true);
     } catch (err) {
-      setError('Failed to upload documents. Please try again.');
-      toast.error('Upload failed');
+      if (api.isAbortError(err)) {
+        updateFiles(file => ({ ...file, status: 'cancelled' }));
+        toast.info('Upload cancelled');
+      } else if (api.isSessionExpired(err)) {
+        setUploadProgress([]);
+        await recoverExpiredSession();
+      } else {
+        updateFiles(file => ({ ...file, status: 'error' }));
+        const detail = api.describeError(err, 'Please try again.');
+        setError(`Failed to upload documents: ${detail}`);
+        toast.error('Upload failed', { description: detail });
+      }
     } finally {
+      uploadAbortRef.current = null;
       setIsLoading(false);
     }
   };
 
-  const handleSendMessage = async (message: string) => {
+  const requestPersonaSuggestion = async (targetSessionId = sessionId, announce = false) => {
+    setIsSuggesting(true);
+    try {
+      const suggestion = await api.suggestPersona(targetSessionId);
+      setPersonaSuggestion({ sessionId: targetSessionId, suggestion });
+      if (announce && suggestion.name.value) {
+        toast.info(`These documents seem to be about ${suggestion.name.value}`, {
+          description: 'Review the suggested persona profile before using it.',
+          action: { label: 'Review', onClick: () => setPersonaEditorOpen(true) },
+        });
+      }
+    } catch (err) {
+      toast.error('Could not suggest a persona', { description: api.describeError(err, 'Please try again.') });
+    } finally {
+      setIsSuggesting(false);
+    }
+  };
+
+  // A suggested value's sources open like an answer's: listed in the panel, the chosen one in the viewer
+  const showSuggestionSource = (text: string, citations: Citation[], citation: Citation) => {
+    setSelectedCitations(citations);
+    setSelectedRetrieval(null);
+    setCitedAnswer(text);
+    setFocusedCitation(citation);
+    setViewerCitation(citation);
+  };
+
+  const handleCancelUpload = () => {
+    uploadAbortRef.current?.abort();
+  };
+
+  const handleRemoveDocument = async (documentId: string) => {
+    try {
+      const data = await api.deleteDocument(sessionId, documentId);
+      setDocuments(prev => prev.filter(d => d.id !== documentId));
+      setScope(prev => prev.filter(id => id !== documentId));
+      setDocumentCount(data.documents);
+      setChunkCount(data.chunks);
+      setDocumentsUploaded(data.chunks > 0);
+      if (!data.chunks) setStarterQuestions([]);
+      toast.success('Document removed from the index');
+    } catch (err) {
+      if (api.isSessionExpired(err)) {
+        await recoverExpiredSession();
+      } else {
+        toast.error('Could not remove document', { description: api.describeError(err, 'Please try again.') });
+      }
+    }
+  };
+
+  const showCitations = (message: Message, focus?: Citation) => {
+    setSelectedCitations(message.citations || []);
+    setSelectedRetrieval(message.retrieval ?? null);
+    setCitedAnswer(message.content);
+    setFocusedCitation(focus ?? null);
+  };
+
+  const updateMessage = (id: string, update: (m: Message) => Message | null) => {
+    setChatHistory(prev => prev.flatMap((m) => {
+      if (m.id !== id) return [m];
+      const next = update(m);
+      return next ? [next] : [];
+    }));
+  };
+
+  // Streams an answer into an assistant message and files it as that message's newest variant
+  const streamAnswer = async (assistantId: string, question: string, regenerate: boolean, documentIds?: string[]) => {
+    const finishVariant = (m: Message, patch: Partial<AnswerVariant>, turn = m.turn): Message => {
+      const variant: AnswerVariant = {
+        content: m.content,
+        citations: m.citations,
+        timestamp: new Date(),
+        stopped: m.stopped,
+        followUps: undefined,
+        retrieval: undefined,
+        ...patch,
+      };
+      const variants = [...(m.variants || []), variant];
+      return { ...m, ...variant, turn, isStreaming: false, variants, activeVariant: variants.length - 1 };
+    };
+    // Back to the answer shown before this attempt; a first attempt keeps any partial text
+    const restorePrevious = (m: Message): Message | null => {
+      const previous = m.variants?.[m.activeVariant ?? 0];
+      if (previous) return { ...m, ...previous, isStreaming: false };
+      return m.content ? { ...m, isStreaming: false } : null;
+    };
+
+    setIsLoading(true);
+    setError('');
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
+
+    try {
+      const data = await api.streamChat(
+        sessionId,
+        question,
+        (content) => updateMessage(assistantId, m => ({ ...m, content })),
+        { signal: controller.signal, regenerate, debug: inspectRetrieval, documentIds },
+      );
+      const mappedCitations = data.citations.map(api.toCitation);
+      const retrieval = data.retrieval && api.toRetrievalTrace(data.retrieval);
+      updateMessage(assistantId, m => finishVariant(m, {
+        content: data.answer,
+        citations: mappedCitations,
+        stopped: false,
+        followUps: data.follow_ups,
+        retrieval,
+      }, data.turn));
+      setSelectedCitations(mappedCitations);
+      setSelectedRetrieval(retrieval ?? null);
+      setCitedAnswer(data.answer);
+      setFocusedCitation(null);
+    } catch (err) {
+      if (api.isAbortError(err)) {
+        // Keep whatever arrived, flagged as partial; the backend drops the turn.
+        // A regeneration stopped before any text simply returns to the previous answer.
+        updateMessage(assistantId, m => (
+          m.content || !m.variants?.length ? finishVariant(m, { stopped: true }) : restorePrevious(m)
+        ));
+        return;
+      }
+      updateMessage(assistantId, restorePrevious);
+      if (api.isSessionExpired(err)) {
+        await recoverExpiredSession();
+      } else {
+        const detail = api.describeError(err, 'Please try again.');
+        setError(`Failed to send message: ${detail}`);
+        toast.error('Message failed', { description: detail });
+      }
+    } finally {
+      chatAbortRef.current = null;
+      setIsLoading(false);
+    }
+  };
+
+  // messageScope limits just this question; otherwise the conversation's scope applies
+  const handleSendMessage = async (message: string, messageScope?: string[]) => {
     if (!documentsUploaded) {
       setError('Please upload documents before chatting.');
       toast.error('Upload documents first');
       return;
     }
 
+    const documentIds = requestDocumentIds(messageScope ?? scope, documents.map(d => d.id));
     const userMessage: Message = {
       id: `msg_${Date.now()}_user`,
       role: 'user',
       content: message,
       timestamp: new Date(),
+      scope: documentIds,
     };
+    const assistantId = `msg_${Date.now()}_assistant`;
 
-    setChatHistory(prev => [...prev, userMessage]);
-    setIsLoading(true);
-    setError('');
+    setChatHistory(prev => [
+      ...prev,
+      userMessage,
+      { id: assistantId, role: 'assistant', content: '', timestamp: new Date(), isStreaming: true },
+    ]);
+    await streamAnswer(assistantId, message, false, documentIds);
+  };
+
+  // Only the latest answer can be regenerated, so later turns never rest on a replaced one
+  const handleRegenerate = async (messageId: string) => {
+    const index = chatHistory.findIndex(m => m.id === messageId);
+    const target = chatHistory[index];
+    const question = chatHistory[index - 1];
+    if (!target || index !== chatHistory.length - 1 || question?.role !== 'user') return;
+
+    updateMessage(messageId, m => ({
+      ...m,
+      variants: m.variants || [{
+        content: m.content,
+        citations: m.citations,
+        timestamp: m.timestamp,
+        stopped: m.stopped,
+        followUps: m.followUps,
+        retrieval: m.retrieval,
+      }],
+      activeVariant: m.activeVariant ?? 0,
+      content: '',
+      citations: undefined,
+      stopped: false,
+      isStreaming: true,
+    }));
+    // Without a recorded turn (e.g. the last attempt was stopped) the backend never saw an answer to replace
+    await streamAnswer(
+      messageId,
+      question.content,
+      target.turn !== undefined,
+      requestDocumentIds(question.scope, documents.map(d => d.id)),
+    );
+  };
 
+  // Show another variant and make the backend continue from it
+  const handleSelectVariant = async (messageId: string, variantIndex: number) => {
+    const target = chatHistory.find(m => m.id === messageId);
+    const variant = target?.variants?.[variantIndex];
+    if (!target || !variant) return;
+
+    updateMessage(messageId, m => ({ ...m, ...variant, activeVariant: variantIndex }));
+    setSelectedCitations(variant.citations || []);
+    setSelectedRetrieval(variant.retrieval ?? null);
+    setCitedAnswer(variant.content);
+    setFocusedCitation(null);
+    if (target.turn === undefined || variant.stopped) return;
     try {
-      const res = await fetch(`${API_BASE}/chat`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ session_id: sessionId, message }),
+      await api.updateHistoryTurn(sessionId, target.turn, variant.content);
+    } catch (err) {
+      await reportHistoryError(err, 'Could not switch answers');
+    }
+  };
+
+  const reportHistoryError = async (err: unknown, title: string) => {
+    if (api.isSessionExpired(err)) {
+      await recoverExpiredSession();
+    } else {
+      toast.error(title, { description: api.describeError(err, 'Please try again.') });
+    }
+  };
+
+  // Resend an edited question as a new branch; the backend forgets everything from that point on
+  const handleEditMessage = async (messageId: string, content: string) => {
+    const index = chatHistory.findIndex(m => m.id === messageId);
+    if (index < 0 || chatHistory[index].role !== 'user' || !content.trim()) return;
+
+    try {
+      await api.replaceHistory(sessionId, historyTurns(chatHistory.slice(0, index)));
+    } catch (err) {
+      await reportHistoryError(err, 'Could not edit the question');
+      return;
+    }
+
+    // The edited question keeps the documents the original was limited to
+    const question: Message = {
+      id: `msg_${Date.now()}_user`,
+      role: 'user',
+      content: content.trim(),
+      timestamp: new Date(),
+      scope: requestDocumentIds(chatHistory[index].scope, documents.map(d => d.id)),
+    };
+    const assistantId = `msg_${Date.now()}_assistant`;
+    const placeholder: Message = { id: assistantId, role: 'assistant', content: '', timestamp: new Date(), isStreaming: true };
+    setChatHistory(withTurns(startBranch(chatHistory, index, [question, placeholder])));
+    setSelectedCitations([]);
+    setSelectedRetrieval(null);
+    await streamAnswer(assistantId, question.content, false, question.scope);
+  };
+
+  const handleSelectBranch = async (messageId: string, branch: number) => {
+    const index = chatHistory.findIndex(m => m.id === messageId);
+    if (index < 0) return;
+    const next = withTurns(switchBranch(chatHistory, index, branch));
+    setChatHistory(next);
+    setSelectedCitations([]);
+    setSelectedRetrieval(null);
+    try {
+      await api.replaceHistory(sessionId, historyTurns(next));
+    } catch (err) {
+      await reportHistoryError(err, 'Could not switch branches');
+    }
+  };
+
+  const handleStopGeneration = () => {
+    chatAbortRef.current?.abort();
+  };
+
+  const handleExport = (format: TranscriptFormat) => {
+    const current = sessions.find(s => s.sessionId === sessionId);
+    const exported = exportTranscript(format, chatHistory, {
+      persona,
+      title: current?.title || '',
+      sessionDate: chatHistory[0]?.timestamp ?? new Date(),
+      documents,
+    });
+    if (!exported) {
+      toast.error('Could not open the print view', { description: 'Allow pop-ups for this site and try again.' });
+    }
+  };
+
+  // Open an exported transcript as a new conversation, seeding the backend with its exchanges
+  const handleImport = async (file: File) => {
+    let transcript: TranscriptFile;
+    try {
+      transcript = parseTranscriptFile(await file.text());
+    } catch (err) {
+      toast.error('Could not import conversation', {
+        description: err instanceof TranscriptError ? err.message : 'The file could not be read.',
       });
-      if (!res.ok) {
-        const errText = await res.text();
-        throw new Error(errText || 'Chat failed');
-      }
-      const data = await res.json();
-      const mappedCitations: Citation[] = (data.citations || []).map((c: any) => ({
-        filename: c.source || 'Source',
-        page: c.page,
-        snippet: c.snippet,
-      }));
-      const assistantMessage: Message = {
-        id: `msg_${Date.now()}_assistant`,
-        role: 'assistant',
-        content: data.answer || '',
-        citations: mappedCitations,
-        timestamp: new Date(),
+      return;
+    }
+
+    setIsLoading(true);
+    setError('');
+    try {
+      const session = await createSession();
+      const messages = withTurns(transcriptMessages(transcript));
+      await api.importConversation(session.sessionId, transcript.persona, historyTurns(messages));
+      const imported: StoredSession = {
+        ...session,
+        title: transcript.title,
+        persona: transcript.persona,
+        profile: { ...api.emptyPersonaProfile(), display_name: transcript.persona },
+        chatHistory: messages,
+        updatedAt: new Date(),
       };
-      setChatHistory(prev => [...prev, assistantMessage]);
-      setSelectedCitations(mappedCitations);
+      setSessions(prev => [imported, ...prev]);
+      applySession(imported);
+      const names = transcript.documents.map(d => d.filename).join(', ');
+      toast.success('Conversation imported', {
+        description: names ? `Upload ${names} again to ask follow-up questions.` : undefined,
+      });
     } catch (err) {
-      setError('Failed to send message. Please try again.');
-      toast.error('Message failed');
+      const detail = api.describeError(err, 'Please try again.');
+      setError(`Failed to import conversation: ${detail}`);
+      toast.error('Import failed', { description: detail });
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleSavePersona = async (next: api.PersonaProfile) => {
+    try {
+      const saved = await api.updatePersona(sessionId, next);
+      setProfile(saved);
+      toast.success('Persona saved');
+      return true;
+    } catch (err) {
+      if (api.isSessionExpired(err)) {
+        await recoverExpiredSession(next);
+        return true;
+      }
+      toast.error('Could not save persona', { description: api.describeError(err, 'Please try again.') });
+      return false;
+    }
+  };
+
+  const handleSaveSettings = async (next: api.SessionSettings) => {
+    try {
+      setSettings(await api.updateSettings(sessionId, next));
+      toast.success('Settings saved');
+      return true;
+    } catch (err) {
+      if (api.isSessionExpired(err)) {
+        await recoverExpiredSession();
+        return false;
+      }
+      toast.error('Could not save settings', { description: api.describeError(err, 'Please try again.') });
+      return false;
+    }
+  };
+
   const handleReset = async () => {
     setIsLoading(true);
     try {
       // Reset current session
-      await fetch(`${API_BASE}/reset`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ session_id: sessionId }),
-      });
-      // Start a new session
-      const res = await fetch(`${API_BASE}/session`, { method: 'POST' });
-      const data = await res.json();
-      setSessionId(data.session_id);
-
-      // Clear UI state
-      setChatHistory([]);
-      setPersona('');
-      setDocumentsUploaded(false);
-      setDocumentCount(0);
-      setChunkCount(0);
-      setSelectedCitations([]);
-      setError('');
-      setUploadResetKey((prev) => prev + 1);
+      await api.resetSession(sessionId);
+      // Replace it with a fresh session, leaving other conversations untouched
+      const session = await createSession();
+      setSessions(prev => [session, ...prev.filter(s => s.sessionId !== sessionId)]);
+      applySession(session);
       toast.success('Conversation reset');
     } catch (err) {
-      toast.error('Reset failed');
+      toast.error('Reset failed', { description: api.describeError(err, 'Please try again.') });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleNewSession = async () => {
+    setIsLoading(true);
+    try {
+      await startNewSession();
+    } catch (err) {
+      toast.error('Could not start a new conversation', { description: api.describeError(err, 'Please try again.') });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSelectSession = async (id: string) => {
+    const target = sessions.find(s => s.sessionId === id);
+    if (!target || id === sessionId) return;
+    setIsLoading(true);
+    try {
+      const refreshed = await fetchSession(target);
+      if (!refreshed) {
+        setSessions(prev => prev.filter(s => s.sessionId !== id));
+        toast.error('That conversation has expired on the server');
+        return;
+      }
+      applySession(refreshed);
+    } catch (err) {
+      toast.error('Could not open conversation', { description: api.describeError(err, 'Please try again.') });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRenameSession = (id: string, title: string) => {
+    setSessions(prev => prev.map(s => (s.sessionId === id ? { ...s, title } : s)));
+  };
+
+  const handleDeleteSession = async (id: string) => {
+    setIsLoading(true);
+    try {
+      try {
+        await api.resetSession(id);
+      } catch (err) {
+        // A session the backend already forgot is as good as deleted
+        if (!api.isSessionExpired(err)) {
+          toast.error('Delete failed', { description: api.describeError(err, 'Please try again.') });
+          return;
+        }
+      }
+      const remaining = sessions.filter(s => s.sessionId !== id);
+      setSessions(remaining);
+      toast.success('Conversation deleted');
+      if (id !== sessionId) return;
+      // Never leave the deleted session active: fall back to a blank one if the next can't load
+      const next = remaining.length ? await fetchSession(remaining[0]).catch(() => null) : null;
+      if (next) {
+        applySession(next);
+        return;
+      }
+      try {
+        await startNewSession();
+      } catch (err) {
+        applySession(createStoredSession(''));
+        saveStoredWorkspace({ activeSessionId: '', sessions: remaining });
+        setError(`Could not initialize session: ${api.describeError(err, 'please refresh the page.')}`);
+        toast.error('Session initialization failed');
+      }
     } finally {
       setIsLoading(false);
     }
   };
 
   return (
-    <div className={`min-h-screen ${theme === 'modern' ? 'bg-gradient-to-br from-emerald-50 via-pink-50 to-sky-50' : 'bg-gradient-to-br from-stone-950 via-stone-900 to-amber-950'}`}>
+    <SidebarProvider className={`min-h-screen ${theme === 'modern' ? 'bg-gradient-to-br from-emerald-50 via-pink-50 to-sky-50' : 'bg-gradient-to-br from-stone-950 via-stone-900 to-amber-950'}`}>
       <Toaster position="top-right" />
-      
+
+      {/* Conversation List */}
+      <ConversationSidebar
+        sessions={sessions}
+        activeSessionId={sessionId}
+        theme={theme}
+        disabled={isLoading}
+        onCreate={handleNewSession}
+        onSelect={handleSelectSession}
+        onRename={handleRenameSession}
+        onDelete={handleDeleteSession}
+      />
+
+      <div className="flex-1 min-w-0">
       {/* Header */}
       <header className={`border-b ${theme === 'modern' ? 'bg-white/80 border-emerald-200' : 'bg-stone-950/80 border-stone-800'} backdrop-blur-sm sticky top-0 z-50`}>
         <div className="container mx-auto px-4 py-4">
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-3">
+              <SidebarTrigger className={theme === 'modern' ? 'text-emerald-700 hover:bg-emerald-50' : 'text-amber-300 hover:bg-stone-900'} />
               <img
                 src={LogoImage}
                 alt="Historical Archive Assistant logo"
@@ -207,6 +807,13 @@ export default function App() {
             </div>
             
             <div className="flex items-center gap-2">
+              <TranscriptMenu
+                theme={theme}
+                disabled={isLoading}
+                canExport={chatHistory.some(m => m.content)}
+                onExport={handleExport}
+                onImport={handleImport}
+              />
               {documentsUploaded && (
                 <Button
                   variant="outline"
@@ -219,6 +826,16 @@ export default function App() {
                   Reset
                 </Button>
               )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPersonaEditorOpen(true)}
+                disabled={isLoading}
+                className={theme === 'modern' ? 'border-emerald-300 text-emerald-700 hover:bg-emerald-50' : 'border-stone-700 text-amber-300 hover:bg-stone-900'}
+              >
+                <UserRound className="w-4 h-4 mr-2" />
+                Persona
+              </Button>
               <Button
                 variant="outline"
                 size="sm"
@@ -254,10 +871,51 @@ export default function App() {
               documentCount={documentCount}
               chunkCount={chunkCount}
               resetKey={uploadResetKey}
+              progress={uploadProgress}
+              onCancel={handleCancelUpload}
             />
+
+            {documents.length > 0 && (
+              <DocumentLibrary
+                documents={documents}
+                theme={theme}
+                disabled={isLoading}
+                scope={scope}
+                onScopeChange={setScope}
+                onRemove={handleRemoveDocument}
+              />
+            )}
             
-            {selectedCitations.length > 0 && (
-              <CitationPanel citations={selectedCitations} theme={theme} />
+            {selectedRetrieval ? (
+              <Tabs defaultValue="citations">
+                <TabsList className="w-full">
+                  <TabsTrigger value="citations">Citations</TabsTrigger>
+                  <TabsTrigger value="retrieval">Retrieval ({selectedRetrieval.chunks.length})</TabsTrigger>
+                </TabsList>
+                <TabsContent value="citations">
+                  <CitationPanel
+                    citations={selectedCitations}
+                    focused={focusedCitation}
+                    theme={theme}
+                    onOpen={setViewerCitation}
+                  />
+                </TabsContent>
+                <TabsContent value="retrieval">
+                  <RetrievalPanel
+                    trace={selectedRetrieval}
+                    citations={selectedCitations}
+                    theme={theme}
+                    onOpen={setViewerCitation}
+                  />
+                </TabsContent>
+              </Tabs>
+            ) : selectedCitations.length > 0 && (
+              <CitationPanel
+                citations={selectedCitations}
+                focused={focusedCitation}
+                theme={theme}
+                onOpen={setViewerCitation}
+              />
             )}
           </div>
 
@@ -269,11 +927,44 @@ export default function App() {
               isLoading={isLoading}
               theme={theme}
               persona={persona}
-              onCitationClick={setSelectedCitations}
+              avatar={profile.avatar}
+              starterQuestions={starterQuestions}
+              documents={documents}
+              scope={scope}
+              onScopeChange={setScope}
+              onCitationClick={showCitations}
+              onStop={handleStopGeneration}
+              onRegenerate={handleRegenerate}
+              onSelectVariant={handleSelectVariant}
+              onEditMessage={handleEditMessage}
+              onSelectBranch={handleSelectBranch}
             />
           </div>
         </div>
       </main>
+      </div>
+
+      <CitationViewer
+        citation={viewerCitation}
+        answer={citedAnswer}
+        sessionId={sessionId}
+        theme={theme}
+        onOpenChange={(open) => !open && setViewerCitation(null)}
+      />
+
+      {/* Persona Editor */}
+      <PersonaEditor
+        open={personaEditorOpen}
+        onOpenChange={setPersonaEditorOpen}
+        theme={theme}
+        profile={profile}
+        onSave={handleSavePersona}
+        suggestion={personaSuggestion?.sessionId === sessionId ? personaSuggestion.suggestion : null}
+        isSuggesting={isSuggesting}
+        canSuggest={documentsUploaded}
+        onSuggest={() => requestPersonaSuggestion()}
+        onSourceOpen={showSuggestionSource}
+      />
 
       {/* Settings Panel */}
       <SettingsPanel
@@ -281,7 +972,11 @@ export default function App() {
         onOpenChange={setSettingsOpen}
         theme={theme}
         onThemeChange={setTheme}
+        settings={settings}
+        onSettingsSave={handleSaveSettings}
+        inspectRetrieval={inspectRetrieval}
+        onInspectRetrievalChange={setInspectRetrieval}
       />
-    </div>
+    </SidebarProvider>
   );
 }
@@ -2,21 +2,72 @@ import { useState, useRef, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { ScrollArea } from './ui/scroll-area';
 import { Badge } from './ui/badge';
-import { Send, Loader2, User, Sparkles } from 'lucide-react';
-import { Theme, Message } from '../App';
+import { Button } from './ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu';
+import { ArrowLeft, ArrowRight, Send, Loader2, Pencil, RefreshCw, User, Sparkles, Square, Files, X } from 'lucide-react';
+import { MarkdownContent } from './MarkdownContent';
+import { Theme } from '../App';
+import type { Citation, Message } from '../lib/types';
+import { DocumentInfo } from '../lib/api';
+import { inScope, toggleScope } from '../lib/scope';
 
 interface ChatAreaProps {
   messages: Message[];
-  onSendMessage: (message: string) => void;
+  // scope, when given, limits just this question to those document ids
+  onSendMessage: (message: string, scope?: string[]) => void;
   isLoading: boolean;
   theme: Theme;
   persona: string;
-  onCitationClick: (citations: any[]) => void;
+  // Image shown beside the persona's answers, if the profile has one
+  avatar?: string | null;
+  // Shown as one-click questions while the conversation is empty
+  starterQuestions: string[];
+  // The uploaded documents, and the ids of the conversation's scope among them
+  documents: DocumentInfo[];
+  scope: string[];
+  onScopeChange: (scope: string[]) => void;
+  onCitationClick: (message: Message, citation?: Citation) => void;
+  // Aborts the answer currently being generated
+  onStop: () => void;
+  onRegenerate: (messageId: string) => void;
+  onSelectVariant: (messageId: string, variantIndex: number) => void;
+  // Resends an edited question as a new branch of the conversation
+  onEditMessage: (messageId: string, content: string) => void;
+  onSelectBranch: (messageId: string, branch: number) => void;
 }
 
-export function ChatArea({ messages, onSendMessage, isLoading, theme, persona, onCitationClick }: ChatAreaProps) {
+export function ChatArea({
+  messages,
+  onSendMessage,
+  isLoading,
+  theme,
+  persona,
+  avatar,
+  starterQuestions,
+  documents,
+  scope,
+  onScopeChange,
+  onCitationClick,
+  onStop,
+  onRegenerate,
+  onSelectVariant,
+  onEditMessage,
+  onSelectBranch,
+}: ChatAreaProps) {
   const [inputMessage, setInputMessage] = useState('');
+  // Documents picked for the next question only; null follows the conversation's scope
+  const [messageScope, setMessageScope] = useState<string[] | null>(null);
+  const [editingId, setEditingId] = useState('');
+  const [editDraft, setEditDraft] = useState('');
   const scrollRef = useRef<HTMLDivElement>(null);
+  const isStreaming = messages.some(m => m.isStreaming);
 
   useEffect(() => {
     const viewport = scrollRef.current?.querySelector<HTMLDivElement>(
@@ -27,13 +78,35 @@ export function ChatArea({ messages, onSendMessage, isLoading, theme, persona, o
     }
   }, [messages]);
 
+  const send = (text: string) => {
+    onSendMessage(text, messageScope ?? undefined);
+    setMessageScope(null);
+  };
+
   const handleSubmit = () => {
     if (inputMessage.trim() && !isLoading) {
-      onSendMessage(inputMessage.trim());
+      send(inputMessage.trim());
       setInputMessage('');
     }
   };
 
+  const activeScope = messageScope ?? scope;
+  const changeScope = (next: string[]) => (messageScope ? setMessageScope(next) : onScopeChange(next));
+  const documentIds = documents.map(d => d.id);
+  const scopedCount = documents.filter(d => inScope(activeScope, d.id)).length;
+  const documentName = (id: string) => documents.find(d => d.id === id)?.filename ?? 'a removed document';
+
+  const startEditing = (message: Message) => {
+    setEditingId(message.id);
+    setEditDraft(message.content);
+  };
+
+  const submitEdit = () => {
+    if (!editDraft.trim() || isLoading) return;
+    onEditMessage(editingId, editDraft.trim());
+    setEditingId('');
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -46,6 +119,71 @@ export function ChatArea({ messages, onSendMessage, isLoading, theme, persona, o
     : 'bg-stone-900 border-stone-700 shadow-lg shadow-stone-950/50';
 
   const accentColor = theme === 'modern' ? 'text-slate-900' : 'text-stone-100';
+  const mutedText = theme === 'modern' ? 'text-slate-500' : 'text-stone-500';
+  const arrowButton = `size-7 rounded-full ${theme === 'modern' ? 'border-emerald-300 text-emerald-700' : 'border-stone-600 bg-stone-800 text-stone-300 hover:bg-stone-700 hover:text-stone-100'}`;
+  const actionLink = `inline-flex items-center gap-1 text-xs transition-colors disabled:opacity-50 ${
+    theme === 'modern' ? 'text-emerald-700 hover:text-emerald-900' : 'text-amber-400 hover:text-amber-200'
+  }`;
+  const scopeChip = theme === 'modern' ? 'bg-emerald-100 text-emerald-700' : 'bg-stone-800 text-amber-200';
+  // One-click questions: starter questions and follow-up suggestions
+  const promptChip = `rounded-full border text-sm text-left transition-colors disabled:opacity-50 ${
+    theme === 'modern'
+      ? 'border-emerald-300 bg-emerald-50 text-emerald-800 hover:bg-emerald-100'
+      : 'border-stone-700 bg-stone-800 text-amber-200 hover:bg-stone-700'
+  }`;
+  const lastMessageId = messages[messages.length - 1]?.id;
+
+  const renderAssistantAvatar = () => (
+    <div className={`w-8 h-8 rounded-full overflow-hidden ${theme === 'modern' ? 'bg-gradient-to-br from-emerald-500 to-pink-500' : 'bg-gradient-to-br from-amber-900 to-stone-800'} flex items-center justify-center flex-shrink-0`}>
+      {avatar ? (
+        <img src={avatar} alt={persona} className="w-full h-full object-cover" />
+      ) : (
+        <Sparkles className="w-5 h-5 text-white" />
+      )}
+    </div>
+  );
+
+  // Carousel-style arrows, used for answer variants and question branches
+  const renderPager = (active: number, count: number, label: string, onSelect: (index: number) => void) => {
+    if (count < 2) return null;
+    return (
+      <div className="flex items-center gap-1">
+        <Button
+          variant="outline"
+          size="icon"
+          className={arrowButton}
+          disabled={active === 0 || isLoading}
+          onClick={() => onSelect(active - 1)}
+        >
+          <ArrowLeft />
+          <span className="sr-only">Previous {label}</span>
+        </Button>
+        <span className={`text-xs tabular-nums ${mutedText}`}>
+          {active + 1} / {count}
+        </span>
+        <Button
+          variant="outline"
+          size="icon"
+          className={arrowButton}
+          disabled={active === count - 1 || isLoading}
+          onClick={() => onSelect(active + 1)}
+        >
+          <ArrowRight />
+          <span className="sr-only">Next {label}</span>
+        </Button>
+      </div>
+    );
+  };
+
+  const renderVariantNav = (message: Message) => {
+    const count = message.variants?.length ?? 0;
+    return renderPager(message.activeVariant ?? count - 1, count, 'answer', (i) => onSelectVariant(message.id, i));
+  };
+
+  const renderBranchNav = (message: Message) => {
+    const count = message.branches?.length ?? 0;
+    return renderPager(message.activeBranch ?? 0, count, 'branch', (i) => onSelectBranch(message.id, i));
+  };
 
   return (
     <div className="flex flex-col min-h-[calc(100vh-12rem)] gap-4">
@@ -62,8 +200,25 @@ export function ChatArea({ messages, onSendMessage, isLoading, theme, persona, o
                   <div className="text-center py-12">
                     <Sparkles className={`w-16 h-16 mx-auto mb-4 ${theme === 'modern' ? 'text-emerald-300' : 'text-stone-600'}`} />
                     <p className={`${theme === 'modern' ? 'text-slate-600' : 'text-stone-400'}`}>
-                      Upload their words and let them speak again.
+                      {starterQuestions.length
+                        ? `Not sure where to begin? Ask ${persona || 'them'} one of these.`
+                        : 'Upload their words and let them speak again.'}
                     </p>
+                    {starterQuestions.length > 0 && (
+                      <div className="mt-6 flex flex-wrap justify-center gap-2">
+                        {starterQuestions.map(question => (
+                          <button
+                            key={question}
+                            type="button"
+                            onClick={() => send(question)}
+                            disabled={isLoading}
+                            className={`px-4 py-2 ${promptChip}`}
+                          >
+                            {question}
+                          </button>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 ) : (
                   messages.map((message) => (
@@ -71,11 +226,7 @@ export function ChatArea({ messages, onSendMessage, isLoading, theme, persona, o
                       key={message.id}
                       className={`flex gap-3 ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
                     >
-                      {message.role === 'assistant' && (
-                        <div className={`w-8 h-8 rounded-full ${theme === 'modern' ? 'bg-gradient-to-br from-emerald-500 to-pink-500' : 'bg-gradient-to-br from-amber-900 to-stone-800'} flex items-center justify-center flex-shrink-0`}>
-                          <Sparkles className="w-5 h-5 text-white" />
-                        </div>
-                      )}
+                      {message.role === 'assistant' && renderAssistantAvatar()}
 
                       <div className={`flex flex-col gap-2 max-w-[80%]`}>
                         <div
@@ -89,9 +240,61 @@ export function ChatArea({ messages, onSendMessage, isLoading, theme, persona, o
                                 : 'bg-stone-800 border border-stone-700'
                           }`}
                         >
-                          <p className={message.role === 'assistant' ? (theme === 'modern' ? 'text-slate-900' : 'text-stone-100') : ''}>
-                            {message.content}
-                          </p>
+                          {message.isStreaming && !message.content ? (
+                            <Loader2 className={`w-5 h-5 animate-spin ${theme === 'modern' ? 'text-emerald-600' : 'text-amber-400'}`} />
+                          ) : message.id === editingId ? (
+                            <div className="space-y-2">
+                              <textarea
+                                autoFocus
+                                value={editDraft}
+                                onChange={(e) => setEditDraft(e.target.value)}
+                                onKeyDown={(e) => {
+                                  if (e.key === 'Enter' && !e.shiftKey) {
+                                    e.preventDefault();
+                                    submitEdit();
+                                  }
+                                  if (e.key === 'Escape') setEditingId('');
+                                }}
+                                rows={3}
+                                className="w-full min-w-64 resize-none rounded-md bg-white/15 p-2 text-white placeholder:text-white/60 focus:outline-none focus:ring-2 focus:ring-white/60"
+                              />
+                              <div className="flex justify-end gap-2">
+                                <button
+                                  type="button"
+                                  onClick={() => setEditingId('')}
+                                  className="rounded-md px-3 py-1 text-sm text-white/80 hover:bg-white/10"
+                                >
+                                  Cancel
+                                </button>
+                                <button
+                                  type="button"
+                                  onClick={submitEdit}
+                                  disabled={!editDraft.trim() || isLoading}
+                                  className="rounded-md bg-white/20 px-3 py-1 text-sm text-white hover:bg-white/30 disabled:opacity-50"
+                                >
+                                  Save & resend
+                                </button>
+                              </div>
+                            </div>
+                          ) : message.role === 'user' ? (
+                            <p className="whitespace-pre-wrap">{message.content}</p>
+                          ) : message.stopped && !message.content ? (
+                            <p className={`italic ${theme === 'modern' ? 'text-slate-500' : 'text-stone-400'}`}>
+                              Response cancelled
+                            </p>
+                          ) : (
+                            <div className={theme === 'modern' ? 'text-slate-900' : 'text-stone-100'}>
+                              <MarkdownContent
+                                content={message.content}
+                                citations={message.citations}
+                                theme={theme}
+                                onCitationFocus={(citation) => onCitationClick(message, citation)}
+                              />
+                              {message.isStreaming && (
+                                <span className={`inline-block w-2 h-4 mt-1 animate-pulse ${theme === 'modern' ? 'bg-emerald-500' : 'bg-amber-400'}`} />
+                              )}
+                            </div>
+                          )}
                         </div>
 
                         {message.citations && message.citations.length > 0 && (
@@ -101,8 +304,9 @@ export function ChatArea({ messages, onSendMessage, isLoading, theme, persona, o
                                 key={idx}
                                 variant="outline"
                                 className={`cursor-pointer ${theme === 'modern' ? 'border-emerald-300 text-emerald-700 hover:bg-emerald-100' : 'border-amber-700 text-amber-300 hover:bg-stone-800'}`}
-                                onClick={() => onCitationClick(message.citations || [])}
+                                onClick={() => onCitationClick(message, citation)}
                               >
+                                {citation.index && `[${citation.index}] `}
                                 {citation.filename}
                                 {citation.page && ` (p.${citation.page})`}
                               </Badge>
@@ -110,9 +314,54 @@ export function ChatArea({ messages, onSendMessage, isLoading, theme, persona, o
                           </div>
                         )}
 
-                        <p className={`text-xs ${theme === 'modern' ? 'text-slate-500' : 'text-stone-500'}`}>
-                          {message.timestamp.toLocaleTimeString()}
-                        </p>
+                        {!message.isStreaming && (
+                          <div className={`flex flex-wrap items-center gap-3 ${message.role === 'user' ? 'justify-end' : ''}`}>
+                            {message.role === 'assistant' ? renderVariantNav(message) : renderBranchNav(message)}
+                            <p className={`text-xs ${mutedText}`}>
+                              {message.timestamp.toLocaleTimeString()}
+                              {message.stopped && message.content && ' · Stopped early, partial answer'}
+                              {message.scope && ` · From ${message.scope.map(documentName).join(', ')}`}
+                            </p>
+                            {message.role === 'assistant' && message.id === lastMessageId && (
+                              <button
+                                type="button"
+                                onClick={() => onRegenerate(message.id)}
+                                disabled={isLoading}
+                                className={actionLink}
+                              >
+                                <RefreshCw className="w-3 h-3" />
+                                Regenerate
+                              </button>
+                            )}
+                            {message.role === 'user' && message.id !== editingId && (
+                              <button
+                                type="button"
+                                onClick={() => startEditing(message)}
+                                disabled={isLoading}
+                                className={actionLink}
+                              >
+                                <Pencil className="w-3 h-3" />
+                                Edit
+                              </button>
+                            )}
+                          </div>
+                        )}
+
+                        {message.id === lastMessageId && !message.isStreaming && !!message.followUps?.length && (
+                          <div className="flex flex-wrap gap-2">
+                            {message.followUps.map(question => (
+                              <button
+                                key={question}
+                                type="button"
+                                onClick={() => send(question)}
+                                disabled={isLoading}
+                                className={`px-3 py-1.5 ${promptChip}`}
+                              >
+                                {question}
+                              </button>
+                            ))}
+                          </div>
+                        )}
                       </div>
 
                       {message.role === 'user' && (
@@ -124,11 +373,9 @@ export function ChatArea({ messages, onSendMessage, isLoading, theme, persona, o
                   ))
                 )}
 
-                {isLoading && (
+                {isLoading && !isStreaming && (
                   <div className="flex gap-3">
-                    <div className={`w-8 h-8 rounded-full ${theme === 'modern' ? 'bg-gradient-to-br from-emerald-500 to-pink-500' : 'bg-gradient-to-br from-amber-900 to-stone-800'} flex items-center justify-center flex-shrink-0`}>
-                      <Sparkles className="w-5 h-5 text-white" />
-                    </div>
+                    {renderAssistantAvatar()}
                     <div className={`rounded-lg p-4 ${theme === 'modern' ? 'bg-pink-50 border border-pink-200' : 'bg-stone-800 border border-stone-700'}`}>
                       <Loader2 className={`w-5 h-5 animate-spin ${theme === 'modern' ? 'text-emerald-600' : 'text-amber-400'}`} />
                     </div>
@@ -147,6 +394,68 @@ export function ChatArea({ messages, onSendMessage, isLoading, theme, persona, o
             : 'border-stone-700 bg-stone-900 shadow-lg shadow-stone-950/50'
         }`}
       >
+        {documents.length > 1 && (
+          <div className="flex flex-wrap items-center gap-2 mb-3">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <button type="button" className={actionLink}>
+                  <Files className="w-3 h-3" />
+                  {messageScope ? 'Next question only:' : 'Answering from:'}
+                </button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start">
+                <DropdownMenuCheckboxItem
+                  checked={!!messageScope}
+                  onCheckedChange={(checked) => setMessageScope(checked ? activeScope : null)}
+                  onSelect={(e) => e.preventDefault()}
+                >
+                  Only for the next question
+                </DropdownMenuCheckboxItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel>Documents in scope</DropdownMenuLabel>
+                {documents.map(doc => {
+                  const checked = inScope(activeScope, doc.id);
+                  return (
+                    <DropdownMenuCheckboxItem
+                      key={doc.id}
+                      checked={checked}
+                      disabled={checked && scopedCount === 1}
+                      onCheckedChange={() => changeScope(toggleScope(activeScope, documentIds, doc.id))}
+                      onSelect={(e) => e.preventDefault()}
+                    >
+                      {doc.filename}
+                    </DropdownMenuCheckboxItem>
+                  );
+                })}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            {activeScope.length === 0 ? (
+              <Badge variant="secondary" className={scopeChip}>
+                All documents
+              </Badge>
+            ) : (
+              documents.filter(doc => activeScope.includes(doc.id)).map(doc => (
+                <Badge key={doc.id} variant="secondary" className={`gap-1 ${scopeChip}`}>
+                  <span className="max-w-40 truncate">{doc.filename}</span>
+                  <button
+                    type="button"
+                    onClick={() => changeScope(toggleScope(activeScope, documentIds, doc.id))}
+                    disabled={scopedCount === 1}
+                    aria-label={`Stop limiting answers to ${doc.filename}`}
+                    className="rounded-full hover:opacity-70 disabled:opacity-50"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </Badge>
+              ))
+            )}
+            {messageScope && (
+              <button type="button" onClick={() => setMessageScope(null)} className={actionLink}>
+                Cancel
+              </button>
+            )}
+          </div>
+        )}
         <div className="relative">
           <textarea
             placeholder={persona ? `Chat with ${persona}...` : 'Type your message...'}
@@ -160,23 +469,37 @@ export function ChatArea({ messages, onSendMessage, isLoading, theme, persona, o
             }`}
             rows={3}
           />
-          <button
-            onClick={handleSubmit}
-            disabled={!inputMessage.trim() || isLoading}
-            className={`absolute right-2 bottom-2 p-2 rounded-lg transition-all ${
-              !inputMessage.trim() || isLoading
-                ? 'opacity-50 cursor-not-allowed'
-                : theme === 'modern'
-                  ? 'bg-gradient-to-r from-emerald-500 to-sky-500 hover:from-emerald-600 hover:to-sky-600 text-white'
-                  : 'bg-gradient-to-r from-amber-800 to-amber-900 hover:from-amber-900 hover:to-amber-950 text-white'
-            }`}
-          >
-            {isLoading ? (
-              <Loader2 className="w-5 h-5 animate-spin" />
-            ) : (
-              <Send className="w-5 h-5" />
-            )}
-          </button>
+          {isStreaming ? (
+            <button
+              onClick={onStop}
+              aria-label="Stop generating"
+              className={`absolute right-2 bottom-2 p-2 rounded-lg transition-all text-white ${
+                theme === 'modern'
+                  ? 'bg-slate-700 hover:bg-slate-800'
+                  : 'bg-stone-700 hover:bg-stone-600'
+              }`}
+            >
+              <Square className="w-5 h-5 fill-current" />
+            </button>
+          ) : (
+            <button
+              onClick={handleSubmit}
+              disabled={!inputMessage.trim() || isLoading}
+              className={`absolute right-2 bottom-2 p-2 rounded-lg transition-all ${
+                !inputMessage.trim() || isLoading
+                  ? 'opacity-50 cursor-not-allowed'
+                  : theme === 'modern'
+                    ? 'bg-gradient-to-r from-emerald-500 to-sky-500 hover:from-emerald-600 hover:to-sky-600 text-white'
+                    : 'bg-gradient-to-r from-amber-800 to-amber-900 hover:from-amber-900 hover:to-amber-950 text-white'
+              }`}
+            >
+              {isLoading ? (
+                <Loader2 className="w-5 h-5 animate-spin" />
+              ) : (
+                <Send className="w-5 h-5" />
+              )}
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,64 @@
+import { HoverCard, HoverCardContent, HoverCardTrigger } from './ui/hover-card';
+import { Theme } from '../App';
+import type { Citation } from '../lib/types';
+
+interface CitationMarkerProps {
+  index: number;
+  // Undefined while the answer is still streaming or if the model cited an unknown excerpt
+  citation?: Citation;
+  theme: Theme;
+  onFocus: (citation: Citation) => void;
+}
+
+const MARKER_PATTERN = /\[(\d+)\]/g;
+
+export type CitationTextPart = string | { index: number };
+
+// Breaks answer text around inline [n] markers, keeping the text between them verbatim.
+export function splitCitationMarkers(text: string): CitationTextPart[] {
+  const parts: CitationTextPart[] = [];
+  let last = 0;
+  for (const match of text.matchAll(MARKER_PATTERN)) {
+    const start = match.index ?? 0;
+    if (start > last) parts.push(text.slice(last, start));
+    parts.push({ index: Number(match[1]) });
+    last = start + match[0].length;
+  }
+  if (last < text.length) parts.push(text.slice(last));
+  return parts;
+}
+
+export function CitationMarker({ index, citation, theme, onFocus }: CitationMarkerProps) {
+  const markerColor = theme === 'modern'
+    ? 'bg-emerald-100 text-emerald-700 hover:bg-emerald-200'
+    : 'bg-amber-900 text-amber-200 hover:bg-amber-800';
+  const marker = `inline-flex items-center justify-center min-w-5 h-5 px-1 mx-0.5 rounded text-xs font-medium align-super ${markerColor}`;
+
+  if (!citation) {
+    return <span className={marker}>{index}</span>;
+  }
+
+  return (
+    <HoverCard openDelay={150}>
+      <HoverCardTrigger asChild>
+        <button
+          type="button"
+          className={`${marker} cursor-pointer`}
+          onClick={() => onFocus(citation)}
+          aria-label={`Source ${index}: ${citation.filename}`}
+        >
+          {index}
+        </button>
+      </HoverCardTrigger>
+      <HoverCardContent className={`w-80 space-y-2 ${theme === 'modern' ? 'bg-white border-emerald-200' : 'bg-stone-900 border-stone-700'}`}>
+        <p className={`text-sm font-medium ${theme === 'modern' ? 'text-slate-900' : 'text-stone-100'}`}>
+          [{index}] {citation.filename}
+          {citation.page && ` · Page ${citation.page}`}
+        </p>
+        <p className={`text-sm line-clamp-6 ${theme === 'modern' ? 'text-slate-700' : 'text-stone-300'}`}>
+          "{citation.snippet}"
+        </p>
+      </HoverCardContent>
+    </HoverCard>
+  );
+}
@@ -1,23 +1,31 @@
+import { useEffect, useRef } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
 import { FileText, BookOpen } from 'lucide-react';
-import { Theme, Citation } from '../App';
+import { Theme } from '../App';
+import type { Citation } from '../lib/types';
 
 interface CitationPanelProps {
   citations: Citation[];
+  // Citation picked from an inline [n] marker; the others are dimmed while it is set
+  focused: Citation | null;
   theme: Theme;
+  onOpen: (citation: Citation) => void;
 }
 
-export function CitationPanel({ citations, theme }: CitationPanelProps) {
+export function CitationPanel({ citations, focused, theme, onOpen }: CitationPanelProps) {
+  const focusedRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    focusedRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [focused]);
+
   const cardBg = theme === 'modern' 
     ? 'bg-white border-emerald-200 shadow-lg shadow-emerald-100' 
     : 'bg-stone-900 border-stone-700 shadow-lg shadow-stone-950/50';
 
   const accentColor = theme === 'modern' ? 'text-slate-900' : 'text-stone-100';
   
-  // Show top 3 citations
-  const topCitations = citations.slice(0, 3);
-
   return (
     <Card className={cardBg}>
       <CardHeader>
@@ -26,14 +34,21 @@ export function CitationPanel({ citations, theme }: CitationPanelProps) {
           Sources & Citations
         </CardTitle>
         <CardDescription className={theme === 'modern' ? 'text-slate-600' : 'text-stone-400'}>
-          Top references from the last response
+          References cited in the selected response. Select one to read it in context.
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
-        {topCitations.map((citation, index) => (
-          <div
+        {citations.map((citation, index) => (
+          <button
             key={index}
-            className={`p-4 rounded-lg border ${theme === 'modern' ? 'bg-pink-50/50 border-pink-200' : 'bg-stone-800/50 border-stone-700'}`}
+            ref={citation === focused ? focusedRef : undefined}
+            type="button"
+            onClick={() => onOpen(citation)}
+            className={`w-full text-left p-4 rounded-lg border transition-all ${theme === 'modern' ? 'bg-pink-50/50 border-pink-200 hover:border-emerald-400' : 'bg-stone-800/50 border-stone-700 hover:border-amber-600'} ${
+              citation === focused
+                ? theme === 'modern' ? 'ring-2 ring-emerald-400' : 'ring-2 ring-amber-500'
+                : focused ? 'opacity-60' : ''
+            }`}
           >
             <div className="flex items-start gap-3">
               <div className={`w-8 h-8 rounded ${theme === 'modern' ? 'bg-emerald-100' : 'bg-amber-900'} flex items-center justify-center flex-shrink-0`}>
@@ -42,6 +57,7 @@ export function CitationPanel({ citations, theme }: CitationPanelProps) {
               <div className="flex-1 space-y-2">
                 <div className="flex items-start justify-between gap-2">
                   <p className={accentColor}>
+                    {citation.index && `[${citation.index}] `}
                     {citation.filename}
                   </p>
                   {citation.page && (
@@ -55,7 +71,7 @@ export function CitationPanel({ citations, theme }: CitationPanelProps) {
                 </p>
               </div>
             </div>
-          </div>
+          </button>
         ))}
       </CardContent>
     </Card>
@@ -0,0 +1,160 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
+import { Badge } from './ui/badge';
+import { ExternalLink, Loader2 } from 'lucide-react';
+import { Theme } from '../App';
+import type { Citation } from '../lib/types';
+import * as api from '../lib/api';
+
+interface CitationViewerProps {
+  citation: Citation | null;
+  // Answer the citation supports, used to pick out the sentences it drew on
+  answer: string;
+  sessionId: string;
+  theme: Theme;
+  onOpenChange: (open: boolean) => void;
+}
+
+const contentWords = (text: string) => text.toLowerCase().match(/[a-z0-9']{4,}/g) ?? [];
+
+// Splits on sentence boundaries without dropping any characters, so the pieces rejoin to the original text.
+const splitSentences = (text: string) => text.match(/[^.!?]*[.!?]+\s*|[^.!?]+$/g) ?? [text];
+
+// Marks sentences whose wording largely reappears in the answer; falls back to the single closest one.
+function highlightUsed(text: string, answer: string) {
+  const sentences = splitSentences(text);
+  const answerWords = new Set(contentWords(answer));
+  const scores = sentences.map((sentence) => {
+    const words = contentWords(sentence);
+    if (words.length < 3 || answerWords.size === 0) return 0;
+    return words.filter(w => answerWords.has(w)).length / words.length;
+  });
+  const best = Math.max(0, ...scores);
+  return sentences.map((sentence, i) => ({
+    text: sentence,
+    used: scores[i] >= 0.5 || (best < 0.5 && best >= 0.2 && scores[i] === best),
+  }));
+}
+
+export function CitationViewer({ citation, answer, sessionId, theme, onOpenChange }: CitationViewerProps) {
+  const [context, setContext] = useState<api.ChunkContext | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setContext(null);
+    setError('');
+    // A load aborted by switching citations never clears its own flag
+    setIsLoading(false);
+    if (!citation?.chunkId || !sessionId) return;
+
+    const controller = new AbortController();
+    setIsLoading(true);
+    api.getChunkContext(sessionId, citation.chunkId, 1, { signal: controller.signal, retries: 2 })
+      .then(setContext)
+      .catch((err) => {
+        if (!api.isAbortError(err)) setError(api.describeError(err, 'Could not load the surrounding text.'));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+    return () => controller.abort();
+  }, [citation, sessionId]);
+
+  const dialogBg = theme === 'modern'
+    ? 'bg-white border-emerald-200'
+    : 'bg-stone-900 border-stone-700 text-stone-100';
+  const mutedText = theme === 'modern' ? 'text-slate-500' : 'text-stone-400';
+  const bodyText = theme === 'modern' ? 'text-slate-800' : 'text-stone-200';
+  const markColor = theme === 'modern' ? 'bg-emerald-100 text-emerald-900' : 'bg-amber-900/70 text-amber-100';
+
+  const page = context?.chunk.page ?? citation?.page;
+  const showPage = context?.type === 'pdf' && !!page;
+  const fileUrl = context ? api.documentFileUrl(sessionId, context.document_id) : '';
+
+  const renderCited = (text: string) => (
+    <div className={`p-4 rounded-lg border-l-4 ${theme === 'modern' ? 'border-emerald-500 bg-emerald-50/50' : 'border-amber-600 bg-stone-800/60'}`}>
+      <p className={`whitespace-pre-wrap text-sm ${bodyText}`}>
+        {highlightUsed(text, answer).map((part, i) => (
+          part.used
+            ? <mark key={i} className={`rounded px-0.5 ${markColor}`}>{part.text}</mark>
+            : <span key={i}>{part.text}</span>
+        ))}
+      </p>
+    </div>
+  );
+
+  const renderNeighbours = (chunks: api.ChunkText[]) => chunks.map((chunk) => (
+    <p key={chunk.id} className={`whitespace-pre-wrap text-sm ${mutedText}`}>
+      {chunk.text}
+    </p>
+  ));
+
+  const passage = (
+    <div className="max-h-[60vh] overflow-y-auto space-y-3 pr-1">
+      {isLoading && (
+        <div className={`flex items-center gap-2 text-sm ${mutedText}`}>
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Loading surrounding text...
+        </div>
+      )}
+      {error && <p className={`text-sm ${mutedText}`}>{error}</p>}
+      {context ? (
+        <>
+          {renderNeighbours(context.before)}
+          {renderCited(context.chunk.text)}
+          {renderNeighbours(context.after)}
+        </>
+      ) : (
+        !isLoading && citation && renderCited(citation.snippet)
+      )}
+    </div>
+  );
+
+  return (
+    <Dialog open={!!citation} onOpenChange={onOpenChange}>
+      <DialogContent className={`sm:max-w-3xl ${dialogBg}`}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {citation?.filename}
+            {page && (
+              <Badge variant="secondary" className={theme === 'modern' ? 'bg-emerald-100 text-emerald-700' : 'bg-amber-900 text-amber-200'}>
+                Page {page}
+              </Badge>
+            )}
+          </DialogTitle>
+          <DialogDescription className={mutedText}>
+            The cited passage in context, with the sentences the answer drew on highlighted.
+          </DialogDescription>
+        </DialogHeader>
+
+        {showPage ? (
+          <Tabs defaultValue="passage">
+            <TabsList>
+              <TabsTrigger value="passage">Passage</TabsTrigger>
+              <TabsTrigger value="page">Page {page}</TabsTrigger>
+            </TabsList>
+            <TabsContent value="passage">{passage}</TabsContent>
+            <TabsContent value="page" className="space-y-2">
+              <iframe
+                src={`${fileUrl}#page=${page}`}
+                title={`${citation?.filename}, page ${page}`}
+                className="w-full h-[60vh] rounded border"
+              />
+              <a
+                href={`${fileUrl}#page=${page}`}
+                target="_blank"
+                rel="noreferrer"
+                className={`inline-flex items-center gap-1 text-sm ${theme === 'modern' ? 'text-emerald-700' : 'text-amber-300'}`}
+              >
+                <ExternalLink className="w-4 h-4" />
+                Open in a new tab
+              </a>
+            </TabsContent>
+          </Tabs>
+        ) : passage}
+      </DialogContent>
+    </Dialog>
+  );
+}
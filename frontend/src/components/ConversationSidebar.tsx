@@ -0,0 +1,178 @@
+import { useState } from 'react';
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from './ui/sidebar';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+import { Button } from './ui/button';
+import { MessageSquare, MoreHorizontal, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Theme } from '../App';
+import { StoredSession, sessionLabel } from '../lib/sessionStore';
+
+interface ConversationSidebarProps {
+  sessions: StoredSession[];
+  activeSessionId: string;
+  theme: Theme;
+  disabled: boolean;
+  onCreate: () => void;
+  onSelect: (sessionId: string) => void;
+  onRename: (sessionId: string, title: string) => void;
+  onDelete: (sessionId: string) => void;
+}
+
+export function ConversationSidebar({
+  sessions,
+  activeSessionId,
+  theme,
+  disabled,
+  onCreate,
+  onSelect,
+  onRename,
+  onDelete,
+}: ConversationSidebarProps) {
+  const [editingId, setEditingId] = useState('');
+  const [draftTitle, setDraftTitle] = useState('');
+  const [pendingDelete, setPendingDelete] = useState<StoredSession | null>(null);
+
+  const ordered = [...sessions].sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+
+  const startRename = (session: StoredSession) => {
+    setEditingId(session.sessionId);
+    setDraftTitle(sessionLabel(session));
+  };
+
+  const commitRename = () => {
+    if (editingId) onRename(editingId, draftTitle.trim());
+    setEditingId('');
+  };
+
+  const buttonColor = theme === 'modern'
+    ? 'bg-gradient-to-r from-emerald-500 to-sky-500 hover:from-emerald-600 hover:to-sky-600'
+    : 'bg-gradient-to-r from-amber-800 to-amber-900 hover:from-amber-900 hover:to-amber-950';
+
+  return (
+    <>
+      <Sidebar>
+        <SidebarHeader>
+          <Button
+            onClick={onCreate}
+            disabled={disabled}
+            className={`w-full ${buttonColor} text-white`}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            New Conversation
+          </Button>
+        </SidebarHeader>
+        <SidebarContent>
+          <SidebarGroup>
+            <SidebarGroupLabel>Conversations</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                {ordered.map((session) => (
+                  <SidebarMenuItem key={session.sessionId}>
+                    {editingId === session.sessionId ? (
+                      <SidebarInput
+                        autoFocus
+                        value={draftTitle}
+                        onChange={(e) => setDraftTitle(e.target.value)}
+                        onBlur={commitRename}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') commitRename();
+                          if (e.key === 'Escape') setEditingId('');
+                        }}
+                      />
+                    ) : (
+                      <>
+                        <SidebarMenuButton
+                          size="lg"
+                          isActive={session.sessionId === activeSessionId}
+                          disabled={disabled}
+                          onClick={() => onSelect(session.sessionId)}
+                        >
+                          <MessageSquare />
+                          <div className="flex flex-col min-w-0">
+                            <span className="truncate">{sessionLabel(session)}</span>
+                            <span className="truncate text-xs opacity-70">
+                              {session.documentCount} doc{session.documentCount !== 1 ? 's' : ''}
+                              {' · '}
+                              {session.updatedAt.toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}
+                            </span>
+                          </div>
+                        </SidebarMenuButton>
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <SidebarMenuAction showOnHover disabled={disabled}>
+                              <MoreHorizontal />
+                              <span className="sr-only">Conversation actions</span>
+                            </SidebarMenuAction>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent side="right" align="start">
+                            <DropdownMenuItem onClick={() => startRename(session)}>
+                              <Pencil />
+                              Rename
+                            </DropdownMenuItem>
+                            <DropdownMenuItem variant="destructive" onClick={() => setPendingDelete(session)}>
+                              <Trash2 />
+                              Delete
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      </>
+                    )}
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        </SidebarContent>
+      </Sidebar>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete conversation?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete ? sessionLabel(pendingDelete) : ''}" and its uploaded documents will be removed.
+              This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (pendingDelete) onDelete(pendingDelete.sessionId);
+                setPendingDelete(null);
+              }}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Checkbox } from './ui/checkbox';
+import { FileText, Library, Loader2, Trash2 } from 'lucide-react';
+import { Theme } from '../App';
+import { DocumentInfo } from '../lib/api';
+import { inScope, toggleScope } from '../lib/scope';
+
+interface DocumentLibraryProps {
+  documents: DocumentInfo[];
+  theme: Theme;
+  disabled: boolean;
+  // Ids of the documents answers are limited to; empty means every document
+  scope: string[];
+  onScopeChange: (scope: string[]) => void;
+  onRemove: (documentId: string) => Promise<void>;
+}
+
+export function DocumentLibrary({ documents, theme, disabled, scope, onScopeChange, onRemove }: DocumentLibraryProps) {
+  const [removingId, setRemovingId] = useState('');
+  const documentIds = documents.map(d => d.id);
+  const inScopeCount = documents.filter(d => inScope(scope, d.id)).length;
+
+  const cardBg = theme === 'modern'
+    ? 'bg-white border-emerald-200 shadow-lg shadow-emerald-100'
+    : 'bg-stone-900 border-stone-700 shadow-lg shadow-stone-950/50';
+
+  const accentColor = theme === 'modern' ? 'text-slate-900' : 'text-stone-100';
+
+  const handleRemove = async (documentId: string) => {
+    setRemovingId(documentId);
+    try {
+      await onRemove(documentId);
+    } finally {
+      setRemovingId('');
+    }
+  };
+
+  return (
+    <Card className={cardBg}>
+      <CardHeader>
+        <CardTitle className={`flex items-center gap-2 ${accentColor}`}>
+          <Library className="w-5 h-5" />
+          Document Library
+        </CardTitle>
+        <CardDescription className={theme === 'modern' ? 'text-slate-600' : 'text-stone-400'}>
+          {documents.length} file{documents.length !== 1 ? 's' : ''} indexed for this conversation
+          {scope.length > 0 && ` · answers use ${inScopeCount} of them`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {documents.map((doc) => (
+          <div
+            key={doc.id}
+            className={`flex items-center gap-3 p-3 rounded-lg border ${theme === 'modern' ? 'bg-pink-50/50 border-pink-200' : 'bg-stone-800/50 border-stone-700'}`}
+          >
+            <Checkbox
+              checked={inScope(scope, doc.id)}
+              onCheckedChange={() => onScopeChange(toggleScope(scope, documentIds, doc.id))}
+              disabled={inScope(scope, doc.id) && inScopeCount === 1}
+              aria-label={`Answer from ${doc.filename}`}
+              className={theme === 'modern' ? 'border-emerald-400' : 'border-stone-500'}
+            />
+            <div className={`w-8 h-8 rounded ${theme === 'modern' ? 'bg-emerald-100' : 'bg-amber-900'} flex items-center justify-center flex-shrink-0`}>
+              <FileText className={`w-4 h-4 ${theme === 'modern' ? 'text-emerald-600' : 'text-amber-300'}`} />
+            </div>
+            <div className="flex-1 min-w-0 space-y-1">
+              <div className="flex items-center gap-2">
+                <p className={`truncate text-sm ${accentColor}`}>{doc.filename}</p>
+                <Badge variant="secondary" className={theme === 'modern' ? 'bg-emerald-100 text-emerald-700' : 'bg-amber-900 text-amber-200'}>
+                  {doc.type.toUpperCase()}
+                </Badge>
+              </div>
+              <p className={`text-xs ${theme === 'modern' ? 'text-slate-500' : 'text-stone-500'}`}>
+                {doc.pages !== null && `${doc.pages} page${doc.pages !== 1 ? 's' : ''} · `}
+                {doc.chunks} chunk{doc.chunks !== 1 ? 's' : ''}
+                {' · '}
+                {new Date(doc.uploaded_at).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}
+              </p>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => handleRemove(doc.id)}
+              disabled={disabled || !!removingId}
+              aria-label={`Remove ${doc.filename}`}
+              className={theme === 'modern' ? 'text-slate-500 hover:text-red-600' : 'text-stone-400 hover:text-red-600 hover:bg-stone-800'}
+            >
+              {removingId === doc.id ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Trash2 className="w-4 h-4" />
+              )}
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
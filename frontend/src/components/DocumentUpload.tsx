@@ -3,8 +3,9 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
-import { Upload, FileText, Loader2, CheckCircle } from 'lucide-react';
-import { Theme } from '../App';
+import { Progress } from './ui/progress';
+import { Upload, FileText, Loader2, CheckCircle, X } from 'lucide-react';
+import { Theme, UploadFileProgress } from '../App';
 
 interface DocumentUploadProps {
   onUpload: (files: File[], persona: string) => void;
@@ -13,9 +14,36 @@ interface DocumentUploadProps {
   documentCount: number;
   chunkCount: number;
   resetKey: number;
+  progress: UploadFileProgress[];
+  onCancel: () => void;
 }
 
-export function DocumentUpload({ onUpload, isLoading, theme, documentCount, chunkCount, resetKey }: DocumentUploadProps) {
+const ACTIVE_STATUSES: UploadFileProgress['status'][] = ['uploading', 'uploaded', 'parsing', 'parsed', 'embedding', 'questions'];
+
+function statusLabel(file: UploadFileProgress) {
+  switch (file.status) {
+    case 'uploading':
+      return `Uploading ${Math.round(file.percent)}%`;
+    case 'uploaded':
+      return 'Waiting to be parsed';
+    case 'parsing':
+      return 'Parsing...';
+    case 'parsed':
+      return 'Parsed';
+    case 'embedding':
+      return 'Embedding...';
+    case 'questions':
+      return 'Writing starter questions...';
+    case 'done':
+      return 'Indexed';
+    case 'error':
+      return 'Failed';
+    case 'cancelled':
+      return 'Cancelled';
+  }
+}
+
+export function DocumentUpload({ onUpload, isLoading, theme, documentCount, chunkCount, resetKey, progress, onCancel }: DocumentUploadProps) {
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [persona, setPersona] = useState('');
   const [isDragging, setIsDragging] = useState(false);
@@ -57,6 +85,9 @@ export function DocumentUpload({ onUpload, isLoading, theme, documentCount, chun
     }
   };
 
+  const isUploading = progress.some(file => ACTIVE_STATUSES.includes(file.status));
+  const isProcessing = isUploading && progress.every(file => file.status !== 'uploading');
+
   const handleSubmit = () => {
     if (selectedFiles.length > 0) {
       onUpload(selectedFiles, persona);
@@ -122,17 +153,33 @@ export function DocumentUpload({ onUpload, isLoading, theme, documentCount, chun
           <div className="space-y-2">
             <Label className={accentColor}>Selected Files:</Label>
             <div className="space-y-1">
-              {selectedFiles.map((file, index) => (
-                <div
-                  key={index}
-                  className={`flex items-center gap-2 p-2 rounded ${theme === 'modern' ? 'bg-emerald-50' : 'bg-stone-800'}`}
-                >
-                  <FileText className={`w-4 h-4 ${theme === 'modern' ? 'text-emerald-600' : 'text-amber-500'}`} />
-                  <span className={`text-sm ${theme === 'modern' ? 'text-slate-900' : 'text-stone-200'}`}>
-                    {file.name}
-                  </span>
-                </div>
-              ))}
+              {selectedFiles.map((file, index) => {
+                const fileProgress = progress[index]?.name === file.name ? progress[index] : undefined;
+                return (
+                  <div
+                    key={index}
+                    className={`p-2 rounded space-y-2 ${theme === 'modern' ? 'bg-emerald-50' : 'bg-stone-800'}`}
+                  >
+                    <div className="flex items-center gap-2">
+                      <FileText className={`w-4 h-4 ${theme === 'modern' ? 'text-emerald-600' : 'text-amber-500'}`} />
+                      <span className={`flex-1 truncate text-sm ${theme === 'modern' ? 'text-slate-900' : 'text-stone-200'}`}>
+                        {file.name}
+                      </span>
+                      {fileProgress && (
+                        <span className={`text-xs ${fileProgress.status === 'error' ? 'text-red-600' : theme === 'modern' ? 'text-slate-500' : 'text-stone-400'}`}>
+                          {statusLabel(fileProgress)}
+                        </span>
+                      )}
+                    </div>
+                    {fileProgress && ACTIVE_STATUSES.includes(fileProgress.status) && (
+                      <Progress
+                        value={fileProgress.percent}
+                        className={theme === 'modern' ? 'bg-emerald-100 [&>div]:bg-emerald-500' : 'bg-stone-700 [&>div]:bg-amber-600'}
+                      />
+                    )}
+                  </div>
+                );
+              })}
             </div>
           </div>
         )}
@@ -154,23 +201,35 @@ export function DocumentUpload({ onUpload, isLoading, theme, documentCount, chun
         </div>
 
         {/* Submit Button */}
-        <Button
-          onClick={handleSubmit}
-          disabled={selectedFiles.length === 0 || isLoading}
-          className={`w-full ${buttonColor} text-white`}
-        >
-          {isLoading ? (
-            <>
-              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-              Uploading...
-            </>
-          ) : (
-            <>
-              <Upload className="w-4 h-4 mr-2" />
-              Upload & Process
-            </>
+        <div className="flex gap-2">
+          <Button
+            onClick={handleSubmit}
+            disabled={selectedFiles.length === 0 || isLoading}
+            className={`flex-1 ${buttonColor} text-white`}
+          >
+            {isLoading ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                {isProcessing ? 'Processing...' : 'Uploading...'}
+              </>
+            ) : (
+              <>
+                <Upload className="w-4 h-4 mr-2" />
+                Upload & Process
+              </>
+            )}
+          </Button>
+          {isUploading && (
+            <Button
+              variant="outline"
+              onClick={onCancel}
+              className={theme === 'modern' ? 'border-emerald-300 text-emerald-700 hover:bg-emerald-50' : 'border-stone-700 text-amber-300 hover:bg-stone-900'}
+            >
+              <X className="w-4 h-4 mr-2" />
+              Cancel
+            </Button>
           )}
-        </Button>
+        </div>
 
         {/* Upload Status */}
         {documentCount > 0 && (
@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import type { Parent, PhrasingContent, Root, RootContent } from 'mdast';
+import type { Element, ElementContent } from 'hast';
+import rehypeSanitize, { defaultSchema } from 'rehype-sanitize';
+import { Check, Copy } from 'lucide-react';
+import { CitationMarker, splitCitationMarkers } from './CitationMarker';
+import { Theme } from '../App';
+import type { Citation } from '../lib/types';
+
+interface MarkdownContentProps {
+  content: string;
+  citations?: Citation[];
+  theme: Theme;
+  onCitationFocus: (citation: Citation) => void;
+}
+
+// Only the marker attribute is allowed on top of the default GitHub-style schema
+const sanitizeSchema = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    sup: [...(defaultSchema.attributes?.sup ?? []), 'dataCitation'],
+  },
+};
+
+// Turns [n] in prose (not code) into <sup data-citation="n"> so they can render as markers.
+// The marker rides on an emphasis node whose hName/hProperties mdast-util-to-hast emits instead of <em>.
+function remarkCitations() {
+  const walk = (node: Root | RootContent) => {
+    if (!('children' in node)) return;
+    const parent: Parent = node;
+    parent.children = parent.children.flatMap((child): RootContent[] => {
+      if (child.type !== 'text') {
+        walk(child);
+        return [child];
+      }
+      return splitCitationMarkers(child.value).map((part): PhrasingContent => (
+        typeof part === 'string'
+          ? { type: 'text', value: part }
+          : {
+              type: 'emphasis',
+              data: { hName: 'sup', hProperties: { dataCitation: String(part.index) } },
+              children: [{ type: 'text', value: String(part.index) }],
+            }
+      ));
+    });
+  };
+  return (tree: Root) => walk(tree);
+}
+
+const textOf = (node: Element | ElementContent | undefined): string => {
+  if (!node) return '';
+  if (node.type === 'text') return node.value;
+  return 'children' in node ? node.children.map(child => textOf(child)).join('') : '';
+};
+
+function CodeBlock({ code, theme, children }: { code: string; theme: Theme; children: React.ReactNode }) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Clipboard access can be denied; the code stays selectable by hand.
+    }
+  };
+
+  return (
+    <div className={`relative group rounded-lg border ${theme === 'modern' ? 'bg-slate-900 border-slate-700' : 'bg-stone-950 border-stone-700'}`}>
+      <button
+        type="button"
+        onClick={handleCopy}
+        className="absolute top-2 right-2 p-1.5 rounded text-stone-300 opacity-0 group-hover:opacity-100 focus:opacity-100 hover:bg-white/10 transition-opacity"
+        aria-label={copied ? 'Copied' : 'Copy code'}
+      >
+        {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+      </button>
+      <pre className="overflow-x-auto p-4 text-sm text-stone-100 [&_code]:bg-transparent [&_code]:p-0">
+        {children}
+      </pre>
+    </div>
+  );
+}
+
+export function MarkdownContent({ content, citations, theme, onCitationFocus }: MarkdownContentProps) {
+  const quoteColor = theme === 'modern'
+    ? 'border-emerald-400 bg-emerald-50/60 text-slate-700'
+    : 'border-amber-600 bg-stone-900/60 text-stone-300';
+  const linkColor = theme === 'modern' ? 'text-emerald-700' : 'text-amber-300';
+  const inlineCode = theme === 'modern' ? 'bg-pink-100 text-pink-900' : 'bg-stone-900 text-amber-200';
+  const tableBorder = theme === 'modern' ? 'border-pink-200' : 'border-stone-700';
+
+  const components: Components = {
+    // Soft line breaks are kept, since quoted letters and poems depend on them
+    p: ({ node, ...props }) => <p className="whitespace-pre-line" {...props} />,
+    li: ({ node, ...props }) => <li className="whitespace-pre-line" {...props} />,
+    ul: ({ node, ...props }) => <ul className="list-disc pl-5 space-y-1" {...props} />,
+    ol: ({ node, ...props }) => <ol className="list-decimal pl-5 space-y-1" {...props} />,
+    h1: ({ node, ...props }) => <h3 className="text-lg font-semibold" {...props} />,
+    h2: ({ node, ...props }) => <h4 className="font-semibold" {...props} />,
+    h3: ({ node, ...props }) => <h5 className="font-semibold" {...props} />,
+    blockquote: ({ node, ...props }) => (
+      <blockquote className={`border-l-4 pl-4 py-2 pr-2 italic rounded-r space-y-2 ${quoteColor}`} {...props} />
+    ),
+    a: ({ node, ...props }) => (
+      <a className={`underline underline-offset-2 ${linkColor}`} target="_blank" rel="noreferrer" {...props} />
+    ),
+    code: ({ node, className, ...props }) => (
+      <code className={`${className ?? ''} rounded px-1 py-0.5 font-mono text-sm ${inlineCode}`} {...props} />
+    ),
+    pre: ({ node, children }) => <CodeBlock code={textOf(node)} theme={theme}>{children}</CodeBlock>,
+    table: ({ node, ...props }) => (
+      <div className="overflow-x-auto">
+        <table className={`w-full text-sm border-collapse border ${tableBorder}`} {...props} />
+      </div>
+    ),
+    th: ({ node, ...props }) => <th className={`border px-2 py-1 text-left font-semibold ${tableBorder}`} {...props} />,
+    td: ({ node, ...props }) => <td className={`border px-2 py-1 ${tableBorder}`} {...props} />,
+    hr: ({ node, ...props }) => <hr className={tableBorder} {...props} />,
+    sup: ({ node, children, ...props }) => {
+      const marker = (props as Record<string, unknown>)['data-citation'];
+      if (marker === undefined) return <sup {...props}>{children}</sup>;
+      const index = Number(marker);
+      return (
+        <CitationMarker
+          index={index}
+          citation={citations?.find(c => c.index === index)}
+          theme={theme}
+          onFocus={onCitationFocus}
+        />
+      );
+    },
+  };
+
+  return (
+    <div className="space-y-3 break-words">
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkCitations]}
+        rehypePlugins={[[rehypeSanitize, sanitizeSchema]]}
+        components={components}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
@@ -0,0 +1,328 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from './ui/sheet';
+import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { ImagePlus, Loader2, UserRound, Wand2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { CitationMarker } from './CitationMarker';
+import { Theme } from '../App';
+import type { Citation } from '../lib/types';
+import { PersonaProfile, PersonaSuggestion, SuggestedField, toCitation } from '../lib/api';
+
+interface PersonaEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  theme: Theme;
+  profile: PersonaProfile;
+  // Resolves true once the backend has stored the profile
+  onSave: (profile: PersonaProfile) => Promise<boolean>;
+  // Profile proposed from the uploaded documents, if one has been extracted
+  suggestion: PersonaSuggestion | null;
+  isSuggesting: boolean;
+  // False until there are documents to read a profile from
+  canSuggest: boolean;
+  onSuggest: () => void;
+  onSourceOpen: (text: string, citations: Citation[], citation: Citation) => void;
+}
+
+// Uploaded avatars are stored inline as data URLs, so they are kept small
+const MAX_AVATAR_BYTES = 256 * 1024;
+
+// The backend rejects profiles with more forbidden topics than this
+const MAX_TOPICS = 20;
+
+const parseTopics = (text: string) => text
+  .split(/[\n,]/)
+  .map(topic => topic.trim())
+  .filter(Boolean);
+
+// Fills each empty field the documents support; anything already written is kept
+function applySuggestion(draft: PersonaProfile, suggestion: PersonaSuggestion): PersonaProfile {
+  const phrases = suggestion.phrases.map(p => `"${p.value}"`).join(', ');
+  return {
+    ...draft,
+    display_name: draft.display_name.trim() ? draft.display_name : suggestion.name.value,
+    era: draft.era.trim() ? draft.era : suggestion.life_dates.value,
+    biography: draft.biography.trim() ? draft.biography : suggestion.biography.value,
+    speaking_style: draft.speaking_style.trim() || !phrases ? draft.speaking_style : `Characteristic phrases: ${phrases}`,
+  };
+}
+
+const readDataUrl = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+export function PersonaEditor({
+  open,
+  onOpenChange,
+  theme,
+  profile,
+  onSave,
+  suggestion,
+  isSuggesting,
+  canSuggest,
+  onSuggest,
+  onSourceOpen,
+}: PersonaEditorProps) {
+  const [draft, setDraft] = useState<PersonaProfile>(profile);
+  const [topics, setTopics] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const avatarInputRef = useRef<HTMLInputElement>(null);
+
+  // Start every edit from the saved profile
+  useEffect(() => {
+    if (!open) return;
+    setDraft(profile);
+    setTopics(profile.forbidden_topics.join('\n'));
+  }, [open, profile]);
+
+  const update = (fields: Partial<PersonaProfile>) => setDraft(prev => ({ ...prev, ...fields }));
+
+  const handleAvatarFile = async (file: File) => {
+    if (!file.type.startsWith('image/')) {
+      toast.error('Avatar must be an image');
+      return;
+    }
+    if (file.size > MAX_AVATAR_BYTES) {
+      toast.error('Avatar is too large', { description: 'Choose an image under 256 KB.' });
+      return;
+    }
+    try {
+      update({ avatar: await readDataUrl(file) });
+    } catch {
+      toast.error('Could not read the image');
+    }
+  };
+
+  const topicCount = parseTopics(topics).length;
+  const tooManyTopics = topicCount > MAX_TOPICS;
+
+  const handleSave = async () => {
+    if (tooManyTopics) return;
+    setIsSaving(true);
+    try {
+      const saved = await onSave({ ...draft, forbidden_topics: parseTopics(topics) });
+      if (saved) onOpenChange(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const labelColor = theme === 'modern' ? 'text-slate-900' : 'text-stone-100';
+  const hintColor = theme === 'modern' ? 'text-slate-600' : 'text-stone-400';
+  const fieldColor = theme === 'modern'
+    ? 'border-emerald-300 bg-white focus:ring-emerald-500'
+    : 'border-stone-700 bg-stone-950 text-stone-100 focus:ring-amber-600';
+  const isDataUrl = draft.avatar?.startsWith('data:') ?? false;
+  const panelColor = theme === 'modern' ? 'bg-white border-emerald-200' : 'bg-stone-800 border-stone-700';
+  const valueColor = theme === 'modern' ? 'text-slate-700' : 'text-stone-300';
+
+  const renderSuggested = (label: string, field: SuggestedField) => {
+    if (!field.value) return null;
+    const citations = field.citations.map(toCitation);
+    return (
+      <div key={`${label}-${field.value}`}>
+        <p className={`text-xs font-medium ${hintColor}`}>{label}</p>
+        <p className={`text-sm ${valueColor}`}>
+          {field.value}
+          {citations.map((c, i) => (
+            <CitationMarker
+              key={i}
+              index={c.index ?? i + 1}
+              citation={c}
+              theme={theme}
+              onFocus={(citation) => onSourceOpen(field.value, citations, citation)}
+            />
+          ))}
+        </p>
+      </div>
+    );
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className={`overflow-y-auto ${theme === 'modern' ? 'bg-emerald-50' : 'bg-stone-900'}`}>
+        <SheetHeader>
+          <SheetTitle className={labelColor}>
+            <div className="flex items-center gap-2">
+              <UserRound className="w-5 h-5" />
+              Persona
+            </div>
+          </SheetTitle>
+          <SheetDescription className={hintColor}>
+            Who answers your questions. Changes apply to the next answer.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="px-4 space-y-5">
+          {/* Suggestion */}
+          {suggestion ? (
+            <div className={`rounded-lg border p-3 space-y-3 ${panelColor}`}>
+              <div className={`flex items-center gap-2 text-sm font-medium ${labelColor}`}>
+                <Wand2 className="w-4 h-4" />
+                Suggested from your documents
+              </div>
+              {renderSuggested('Name', suggestion.name)}
+              {renderSuggested('Life dates', suggestion.life_dates)}
+              {renderSuggested('Biography', suggestion.biography)}
+              {suggestion.phrases.map(p => renderSuggested('Characteristic phrase', p))}
+              <div className="flex gap-2">
+                <Button type="button" size="sm" onClick={() => setDraft(prev => applySuggestion(prev, suggestion))}>
+                  Use suggestion
+                </Button>
+                <Button type="button" variant="ghost" size="sm" onClick={onSuggest} disabled={isSuggesting}>
+                  {isSuggesting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Try again
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <Button type="button" variant="outline" size="sm" onClick={onSuggest} disabled={!canSuggest || isSuggesting}>
+              {isSuggesting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Wand2 className="w-4 h-4 mr-2" />}
+              Suggest from documents
+            </Button>
+          )}
+
+          {/* Avatar */}
+          <div className="flex items-center gap-4">
+            <Avatar className="size-16">
+              {draft.avatar && <AvatarImage src={draft.avatar} alt="" className="object-cover" />}
+              <AvatarFallback className={theme === 'modern' ? 'bg-emerald-100 text-emerald-700' : 'bg-stone-800 text-amber-300'}>
+                <UserRound className="w-8 h-8" />
+              </AvatarFallback>
+            </Avatar>
+            <div className="flex flex-wrap gap-2">
+              <input
+                ref={avatarInputRef}
+                type="file"
+                accept="image/*"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleAvatarFile(file);
+                  e.target.value = '';
+                }}
+              />
+              <Button type="button" variant="outline" size="sm" onClick={() => avatarInputRef.current?.click()}>
+                <ImagePlus className="w-4 h-4 mr-2" />
+                Upload image
+              </Button>
+              {draft.avatar && (
+                <Button type="button" variant="ghost" size="sm" onClick={() => update({ avatar: null })}>
+                  <X className="w-4 h-4 mr-2" />
+                  Remove
+                </Button>
+              )}
+            </div>
+          </div>
+          {!isDataUrl && (
+            <div className="space-y-2">
+              <Label htmlFor="persona-avatar" className={labelColor}>Avatar URL</Label>
+              <Input
+                id="persona-avatar"
+                placeholder="https://..."
+                value={draft.avatar ?? ''}
+                onChange={(e) => update({ avatar: e.target.value || null })}
+                className={fieldColor}
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="persona-name" className={labelColor}>Display name</Label>
+            <Input
+              id="persona-name"
+              placeholder="e.g., Ada Lovelace"
+              maxLength={120}
+              value={draft.display_name}
+              onChange={(e) => update({ display_name: e.target.value })}
+              className={fieldColor}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="persona-era" className={labelColor}>Era</Label>
+            <Input
+              id="persona-era"
+              placeholder="e.g., Victorian England, 1840s"
+              maxLength={120}
+              value={draft.era}
+              onChange={(e) => update({ era: e.target.value })}
+              className={fieldColor}
+            />
+            <p className={`text-xs ${hintColor}`}>The persona will not know of events after this time.</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="persona-bio" className={labelColor}>Biography</Label>
+            <Textarea
+              id="persona-bio"
+              rows={4}
+              maxLength={2000}
+              placeholder="A few sentences about who they were"
+              value={draft.biography}
+              onChange={(e) => update({ biography: e.target.value })}
+              className={fieldColor}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="persona-style" className={labelColor}>Speaking style</Label>
+            <Textarea
+              id="persona-style"
+              rows={3}
+              maxLength={1000}
+              placeholder="e.g., Formal and precise, fond of mathematical metaphors"
+              value={draft.speaking_style}
+              onChange={(e) => update({ speaking_style: e.target.value })}
+              className={fieldColor}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="persona-topics" className={labelColor}>Forbidden topics</Label>
+            <Textarea
+              id="persona-topics"
+              rows={3}
+              placeholder="One per line, or separated by commas"
+              value={topics}
+              onChange={(e) => setTopics(e.target.value)}
+              className={fieldColor}
+            />
+            <p className={`text-xs ${tooManyTopics ? 'text-red-600' : hintColor}`}>
+              {tooManyTopics
+                ? `At most ${MAX_TOPICS} topics; remove ${topicCount - MAX_TOPICS} to save.`
+                : 'The persona politely declines questions about these.'}
+            </p>
+          </div>
+        </div>
+
+        <SheetFooter>
+          <Button
+            onClick={handleSave}
+            disabled={isSaving || tooManyTopics}
+            className={`text-white ${theme === 'modern'
+              ? 'bg-gradient-to-r from-emerald-500 to-sky-500 hover:from-emerald-600 hover:to-sky-600'
+              : 'bg-gradient-to-r from-amber-800 to-amber-900 hover:from-amber-900 hover:to-amber-950'}`}
+          >
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save persona
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
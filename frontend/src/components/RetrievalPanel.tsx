@@ -0,0 +1,91 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Search } from 'lucide-react';
+import { Theme } from '../App';
+import type { Citation, RetrievalTrace } from '../lib/types';
+import { RetrievalMode } from '../lib/api';
+
+interface RetrievalPanelProps {
+  trace: RetrievalTrace;
+  // Citations the answer kept, so the chunks it ignored stand out
+  citations: Citation[];
+  theme: Theme;
+  onOpen: (citation: Citation) => void;
+}
+
+// Scores are only comparable within one mode, so each is labelled with what it measures
+const SCORE_LABELS: Record<RetrievalMode, string> = {
+  vector: 'Similarity',
+  keyword: 'BM25 (scaled)',
+  hybrid: 'Fused rank (RRF)',
+};
+
+export function RetrievalPanel({ trace, citations, theme, onOpen }: RetrievalPanelProps) {
+  const cardBg = theme === 'modern'
+    ? 'bg-white border-emerald-200 shadow-lg shadow-emerald-100'
+    : 'bg-stone-900 border-stone-700 shadow-lg shadow-stone-950/50';
+  const accentColor = theme === 'modern' ? 'text-slate-900' : 'text-stone-100';
+  const mutedText = theme === 'modern' ? 'text-slate-600' : 'text-stone-400';
+  const barTrack = theme === 'modern' ? 'bg-emerald-100' : 'bg-stone-800';
+  const barFill = theme === 'modern' ? 'bg-emerald-500' : 'bg-amber-500';
+  const cited = new Set(citations.map(c => c.chunkId));
+  const scoreLabel = trace.mode ? SCORE_LABELS[trace.mode] : 'Score';
+
+  return (
+    <Card className={cardBg}>
+      <CardHeader>
+        <CardTitle className={`flex items-center gap-2 ${accentColor}`}>
+          <Search className="w-5 h-5" />
+          Retrieval
+        </CardTitle>
+        <CardDescription className={mutedText}>
+          Every chunk retrieved for the selected response, in rank order.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className={`p-3 rounded-lg text-sm ${theme === 'modern' ? 'bg-emerald-50 text-slate-700' : 'bg-stone-800 text-stone-300'}`}>
+          <p className={`text-xs font-medium mb-1 ${mutedText}`}>Searched for</p>
+          {trace.question || 'The question as asked'}
+        </div>
+
+        {trace.chunks.length === 0 && (
+          <p className={`text-sm ${mutedText}`}>Nothing was retrieved for this question.</p>
+        )}
+
+        {trace.chunks.map((chunk, index) => {
+          const isCited = cited.has(chunk.chunkId);
+          return (
+            <button
+              key={chunk.chunkId ?? index}
+              type="button"
+              onClick={() => onOpen(chunk)}
+              className={`w-full text-left p-4 rounded-lg border space-y-2 transition-all ${theme === 'modern' ? 'bg-pink-50/50 border-pink-200 hover:border-emerald-400' : 'bg-stone-800/50 border-stone-700 hover:border-amber-600'} ${isCited ? '' : 'opacity-75'}`}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <p className={`text-sm ${accentColor}`}>
+                  {chunk.index && `[${chunk.index}] `}
+                  {chunk.filename}
+                  {chunk.page && ` (p.${chunk.page})`}
+                </p>
+                <Badge variant="secondary" className={theme === 'modern' ? 'bg-emerald-100 text-emerald-700' : 'bg-amber-900 text-amber-200'}>
+                  {isCited ? 'Cited' : 'Not cited'}
+                </Badge>
+              </div>
+              {chunk.score !== undefined && (
+                <div className="flex items-center gap-2">
+                  <div className={`h-1.5 flex-1 rounded-full overflow-hidden ${barTrack}`}>
+                    <div className={`h-full ${barFill}`} style={{ width: `${Math.max(0, Math.min(1, chunk.score)) * 100}%` }} />
+                  </div>
+                  <span className={`text-xs tabular-nums ${mutedText}`}>{scoreLabel} {chunk.score.toFixed(3)}</span>
+                </div>
+              )}
+              <p className={`text-sm line-clamp-4 ${theme === 'modern' ? 'text-slate-700' : 'text-stone-300'}`}>
+                {chunk.text}
+              </p>
+            </button>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,22 +5,69 @@ import {
   SheetHeader,
   SheetTitle,
 } from './ui/sheet';
+import { useEffect, useState } from 'react';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from './ui/accordion';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { RadioGroup, RadioGroupItem } from './ui/radio-group';
-import { Palette, Sparkles, Archive } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Slider } from './ui/slider';
+import { Switch } from './ui/switch';
+import { Palette, Sparkles, Archive, Loader2 } from 'lucide-react';
 import { Theme } from '../App';
+import { CHAT_MODELS, RetrievalMode, SearchType, SessionSettings } from '../lib/api';
 
 interface SettingsPanelProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   theme: Theme;
   onThemeChange: (theme: Theme) => void;
+  settings: SessionSettings;
+  // Resolves true once the backend has accepted the settings
+  onSettingsSave: (settings: SessionSettings) => Promise<boolean>;
+  // Debug mode: answers also report every retrieved chunk and its score
+  inspectRetrieval: boolean;
+  onInspectRetrievalChange: (enabled: boolean) => void;
 }
 
-export function SettingsPanel({ open, onOpenChange, theme, onThemeChange }: SettingsPanelProps) {
+export function SettingsPanel({
+  open,
+  onOpenChange,
+  theme,
+  onThemeChange,
+  settings,
+  onSettingsSave,
+  inspectRetrieval,
+  onInspectRetrievalChange,
+}: SettingsPanelProps) {
+  const [draft, setDraft] = useState<SessionSettings>(settings);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) setDraft(settings);
+  }, [open, settings]);
+
+  const update = (fields: Partial<SessionSettings>) => setDraft(prev => ({ ...prev, ...fields }));
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSettingsSave(draft);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const labelColor = theme === 'modern' ? 'text-slate-900' : 'text-stone-100';
+  const hintColor = theme === 'modern' ? 'text-slate-600' : 'text-stone-400';
+  const fieldColor = theme === 'modern'
+    ? 'border-emerald-300 bg-white focus:ring-emerald-500'
+    : 'border-stone-700 bg-stone-950 text-stone-100 focus:ring-amber-600';
+
   return (
     <Sheet open={open} onOpenChange={onOpenChange}>
-      <SheetContent className={theme === 'modern' ? 'bg-emerald-50' : 'bg-stone-900'}>
+      <SheetContent className={`overflow-y-auto ${theme === 'modern' ? 'bg-emerald-50' : 'bg-stone-900'}`}>
         <SheetHeader>
           <SheetTitle className={theme === 'modern' ? 'text-slate-900' : 'text-stone-100'}>
             <div className="flex items-center gap-2">
@@ -122,6 +169,146 @@ export function SettingsPanel({ open, onOpenChange, theme, onThemeChange }: Sett
               creating either a vibrant modern experience or a classic historical atmosphere.
             </p>
           </div>
+
+          {/* Advanced */}
+          <Accordion type="single" collapsible>
+            <AccordionItem value="advanced">
+              <AccordionTrigger className={labelColor}>Advanced</AccordionTrigger>
+              <AccordionContent className="space-y-5">
+                <p className={`text-sm ${hintColor}`}>
+                  Model and retrieval settings for this conversation.
+                </p>
+
+                <div className="space-y-2">
+                  <Label className={labelColor}>Model</Label>
+                  <Select value={draft.model} onValueChange={(model) => update({ model })}>
+                    <SelectTrigger className={`w-full ${fieldColor}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CHAT_MODELS.map(model => (
+                        <SelectItem key={model} value={model}>{model}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <Label className={labelColor}>Temperature</Label>
+                    <span className={`text-sm tabular-nums ${hintColor}`}>{draft.temperature.toFixed(1)}</span>
+                  </div>
+                  <Slider
+                    min={0}
+                    max={2}
+                    step={0.1}
+                    value={[draft.temperature]}
+                    onValueChange={([temperature]) => update({ temperature })}
+                  />
+                  <p className={`text-xs ${hintColor}`}>Higher values give freer, less predictable answers.</p>
+                </div>
+
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <Label className={labelColor}>Retrieved chunks</Label>
+                    <span className={`text-sm tabular-nums ${hintColor}`}>{draft.k}</span>
+                  </div>
+                  <Slider
+                    min={1}
+                    max={20}
+                    step={1}
+                    value={[draft.k]}
+                    onValueChange={([k]) => update({ k })}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label className={labelColor}>Retrieval mode</Label>
+                  <Select value={draft.retrieval_mode} onValueChange={(value) => update({ retrieval_mode: value as RetrievalMode })}>
+                    <SelectTrigger className={`w-full ${fieldColor}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="hybrid">Hybrid (keywords and meaning)</SelectItem>
+                      <SelectItem value="vector">Vector (meaning only)</SelectItem>
+                      <SelectItem value="keyword">Keyword (exact words only)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className={`text-xs ${hintColor}`}>Keyword search catches exact names, dates and old spellings.</p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label className={labelColor}>Vector strategy</Label>
+                  <Select
+                    value={draft.search_type}
+                    onValueChange={(value) => update({ search_type: value as SearchType })}
+                    disabled={draft.retrieval_mode === 'keyword'}
+                  >
+                    <SelectTrigger className={`w-full ${fieldColor}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="similarity">Similarity (closest matches)</SelectItem>
+                      <SelectItem value="mmr">MMR (relevant but varied)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="chunk-size" className={labelColor}>Chunk size</Label>
+                    <Input
+                      id="chunk-size"
+                      type="number"
+                      min={200}
+                      max={4000}
+                      step={100}
+                      value={draft.chunk_size}
+                      onChange={(e) => update({ chunk_size: Number(e.target.value) })}
+                      className={fieldColor}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="chunk-overlap" className={labelColor}>Overlap</Label>
+                    <Input
+                      id="chunk-overlap"
+                      type="number"
+                      min={0}
+                      max={1000}
+                      step={10}
+                      value={draft.chunk_overlap}
+                      onChange={(e) => update({ chunk_overlap: Number(e.target.value) })}
+                      className={fieldColor}
+                    />
+                  </div>
+                </div>
+                <p className={`text-xs ${hintColor}`}>
+                  Chunking, in characters, applies to documents uploaded from now on.
+                </p>
+
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-1">
+                    <Label htmlFor="inspect-retrieval" className={labelColor}>Retrieval inspector</Label>
+                    <p className={`text-xs ${hintColor}`}>
+                      New answers also list every retrieved chunk with its score and the question that was searched, in a Retrieval tab beside the citations.
+                    </p>
+                  </div>
+                  <Switch id="inspect-retrieval" checked={inspectRetrieval} onCheckedChange={onInspectRetrievalChange} />
+                </div>
+
+                <Button
+                  onClick={handleSave}
+                  disabled={isSaving}
+                  className={`w-full text-white ${theme === 'modern'
+                    ? 'bg-gradient-to-r from-emerald-500 to-sky-500 hover:from-emerald-600 hover:to-sky-600'
+                    : 'bg-gradient-to-r from-amber-800 to-amber-900 hover:from-amber-900 hover:to-amber-950'}`}
+                >
+                  {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Save advanced settings
+                </Button>
+              </AccordionContent>
+            </AccordionItem>
+          </Accordion>
         </div>
       </SheetContent>
     </Sheet>
@@ -0,0 +1,80 @@
+import { useRef } from 'react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu';
+import { Button } from './ui/button';
+import { Download, FileCode, FileJson, FileText, Printer, Upload } from 'lucide-react';
+import { Theme } from '../App';
+import { TranscriptFormat } from '../lib/transcript';
+
+interface TranscriptMenuProps {
+  theme: Theme;
+  disabled: boolean;
+  // False while there is nothing to export; importing stays available
+  canExport: boolean;
+  onExport: (format: TranscriptFormat) => void;
+  onImport: (file: File) => void;
+}
+
+export function TranscriptMenu({ theme, disabled, canExport, onExport, onImport }: TranscriptMenuProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onImport(file);
+          e.target.value = '';
+        }}
+      />
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={disabled}
+            className={theme === 'modern' ? 'border-emerald-300 text-emerald-700 hover:bg-emerald-50' : 'border-stone-700 text-amber-300 hover:bg-stone-900'}
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Transcript
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel>Export transcript</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem disabled={!canExport} onClick={() => onExport('markdown')}>
+            <FileText />
+            Markdown (footnoted citations)
+          </DropdownMenuItem>
+          <DropdownMenuItem disabled={!canExport} onClick={() => onExport('json')}>
+            <FileJson />
+            JSON (re-importable)
+          </DropdownMenuItem>
+          <DropdownMenuItem disabled={!canExport} onClick={() => onExport('html')}>
+            <FileCode />
+            HTML
+          </DropdownMenuItem>
+          <DropdownMenuItem disabled={!canExport} onClick={() => onExport('pdf')}>
+            <Printer />
+            PDF (print)
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => fileInputRef.current?.click()}>
+            <Upload />
+            Import JSON...
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </>
+  );
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { createNdjsonParser } from './api';
+
+describe('createNdjsonParser', () => {
+  it('emits each complete line and buffers a partial one until it finishes', () => {
+    const events: unknown[] = [];
+    const parse = createNdjsonParser(event => events.push(event));
+    parse('{"type":"token","text":"He');
+    expect(events).toEqual([]);
+    parse('llo"}\n{"type":"done"}\n');
+    expect(events).toEqual([{ type: 'token', text: 'Hello' }, { type: 'done' }]);
+  });
+
+  it('skips blank lines', () => {
+    const events: unknown[] = [];
+    const parse = createNdjsonParser(event => events.push(event));
+    parse('\n{"a":1}\n\n  \n{"a":2}\n');
+    expect(events).toEqual([{ a: 1 }, { a: 2 }]);
+  });
+
+  it('flushes a last line without a newline on the final chunk', () => {
+    const events: unknown[] = [];
+    const parse = createNdjsonParser(event => events.push(event));
+    parse('{"a":1}\n{"a":');
+    parse('2}', true);
+    expect(events).toEqual([{ a: 1 }, { a: 2 }]);
+  });
+});
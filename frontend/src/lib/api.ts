@@ -0,0 +1,550 @@
+import type { Citation, RetrievalTrace } from './types';
+const API_BASE = import.meta.env.VITE_API_BASE ?? '/api';
+// Answer every call in the browser from lib/mockApi instead of the backend: set
+// VITE_API_BASE=mock, or flip mockApi in vite.config.ts
+const MOCK_API = API_BASE === 'mock' || __MOCK_API__;
+
+// Imported on first use, so builds talking to the real backend never load the mock
+let mockApi: typeof import('./mockApi') | null = null;
+async function loadMockApi() {
+  if (!mockApi) mockApi = await import('./mockApi');
+  return mockApi;
+}
+
+// Response shapes mirror the FastAPI handlers in backend/main.py
+
+export interface SessionCreated {
+  session_id: string;
+}
+
+export interface PersonaProfile {
+  display_name: string;
+  biography: string;
+  era: string;
+  speaking_style: string;
+  forbidden_topics: string[];
+  // http(s) URL or data:image URI
+  avatar: string | null;
+}
+
+export type SearchType = 'similarity' | 'mmr';
+
+// Vector (FAISS), keyword (BM25) or both rankings fused
+export type RetrievalMode = 'vector' | 'keyword' | 'hybrid';
+
+// Per-session model and retrieval settings; the backend validates every field
+export interface SessionSettings {
+  model: string;
+  temperature: number;
+  k: number;
+  search_type: SearchType;
+  retrieval_mode: RetrievalMode;
+  // Chunking applies to documents uploaded after a change
+  chunk_size: number;
+  chunk_overlap: number;
+}
+
+// Mirrors CHAT_MODELS in the backend
+export const CHAT_MODELS = ['gpt-4o-mini', 'gpt-4o', 'gpt-4.1-mini', 'gpt-4.1'];
+
+export interface SessionInfo {
+  session_id: string;
+  persona: string | null;
+  profile: PersonaProfile;
+  settings: SessionSettings;
+  documents: number;
+  chunks: number;
+  turns: number;
+  starter_questions: string[];
+}
+
+export interface DocumentInfo {
+  id: string;
+  filename: string;
+  type: string;
+  pages: number | null;
+  chunks: number;
+  uploaded_at: string;
+}
+
+export interface UploadResponse {
+  status: 'ok';
+  documents: number;
+  chunks: number;
+  files: DocumentInfo[];
+  // Questions a visitor could start with, written from the latest upload
+  starter_questions: string[];
+}
+
+export interface DocumentList {
+  documents: DocumentInfo[];
+}
+
+export interface DocumentRemoved {
+  status: 'ok';
+  documents: number;
+  chunks: number;
+}
+
+export interface CitationPayload {
+  source: string | null;
+  page: number | null;
+  snippet: string;
+  // Number the answer uses for its inline [n] markers
+  index: number | null;
+  document_id: string | null;
+  chunk_id: string | null;
+}
+
+export interface ChunkText {
+  id: string;
+  text: string;
+  page: number | null;
+}
+
+export interface ChunkContext {
+  document_id: string;
+  filename: string;
+  type: string;
+  chunk: ChunkText;
+  // Adjacent chunks from the same document, in reading order
+  before: ChunkText[];
+  after: ChunkText[];
+}
+
+export interface ChatResponse {
+  answer: string;
+  citations: CitationPayload[];
+  // Position of this exchange in the backend chat_history
+  turn: number;
+  // Questions the retrieved sources could answer next
+  follow_ups: string[];
+  // Only when the request asked for debug output
+  retrieval?: RetrievalTracePayload;
+}
+
+export interface RetrievedChunkPayload extends CitationPayload {
+  text: string;
+  // 0-1, higher is closer; what it measures depends on the trace's mode
+  score: number | null;
+}
+
+export interface RetrievalTracePayload {
+  // The standalone question the chain searched for, rewritten from the conversation
+  question: string | null;
+  // The retrieval mode searched with, which decides what the scores mean
+  mode?: RetrievalMode;
+  chunks: RetrievedChunkPayload[];
+}
+
+export type UploadPhaseEvent =
+  | { type: 'phase'; phase: 'parsing'; file: string }
+  | { type: 'phase'; phase: 'embedding'; chunks: number }
+  | { type: 'phase'; phase: 'questions' };
+
+export type UploadStreamEvent =
+  | UploadPhaseEvent
+  | ({ type: 'done' } & UploadResponse)
+  | { type: 'error'; detail: string };
+
+export interface UploadHandlers {
+  // Bytes of the multipart body sent so far
+  onUploadProgress?: (loaded: number, total: number) => void;
+  // Server-side processing steps reported after the bytes arrive
+  onPhase?: (event: UploadPhaseEvent) => void;
+}
+
+export type ChatStreamEvent =
+  | { type: 'token'; content: string }
+  | ({ type: 'done' } & ChatResponse)
+  | { type: 'error'; detail: string };
+
+export interface HistoryTurn {
+  question: string;
+  answer: string;
+}
+
+export interface HistoryReplaced {
+  status: 'ok';
+  turns: number;
+}
+
+export interface ConversationImported {
+  status: 'ok';
+  persona: string | null;
+  turns: number;
+}
+
+// One proposed profile value with the excerpts that support it
+export interface SuggestedField {
+  value: string;
+  citations: CitationPayload[];
+}
+
+export interface PersonaSuggestion {
+  name: SuggestedField;
+  life_dates: SuggestedField;
+  biography: SuggestedField;
+  phrases: SuggestedField[];
+}
+
+export interface StatusResponse {
+  status: 'ok';
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  // Extra attempts after network failures or 5xx responses
+  retries?: number;
+}
+
+export interface ChatOptions extends RequestOptions {
+  // Answer the latest question again instead of asking a new one
+  regenerate?: boolean;
+  // Ask for the retrieval trace alongside the answer
+  debug?: boolean;
+  // Ids of the documents the answer may draw on; every document when omitted
+  documentIds?: string[];
+}
+
+export function emptyPersonaProfile(): PersonaProfile {
+  return {
+    display_name: '',
+    biography: '',
+    era: '',
+    speaking_style: '',
+    forbidden_topics: [],
+    avatar: null,
+  };
+}
+
+export function defaultSessionSettings(): SessionSettings {
+  return {
+    model: 'gpt-4o-mini',
+    temperature: 0,
+    k: 4,
+    search_type: 'similarity',
+    retrieval_mode: 'hybrid',
+    chunk_size: 1200,
+    chunk_overlap: 150,
+  };
+}
+
+export class ApiError extends Error {
+  status: number;
+  detail: string;
+
+  constructor(status: number, detail: string) {
+    super(detail);
+    this.name = 'ApiError';
+    this.status = status;
+    this.detail = detail;
+  }
+}
+
+export function isAbortError(err: unknown) {
+  return err instanceof DOMException && err.name === 'AbortError';
+}
+
+export function isSessionExpired(err: unknown) {
+  return err instanceof ApiError && err.status === 404 && err.detail === 'Invalid session_id';
+}
+
+// Human-readable reason for a failed call, preferring the backend's own detail
+export function describeError(err: unknown, fallback: string) {
+  if (err instanceof ApiError) return err.detail || fallback;
+  if (err instanceof TypeError) return 'Could not reach the server. Check your connection and try again.';
+  return fallback;
+}
+
+export function toCitation(c: CitationPayload): Citation {
+  return {
+    filename: c.source || 'Source',
+    page: c.page ?? undefined,
+    snippet: c.snippet,
+    index: c.index ?? undefined,
+    documentId: c.document_id ?? undefined,
+    chunkId: c.chunk_id ?? undefined,
+  };
+}
+
+export function toRetrievalTrace(trace: RetrievalTracePayload): RetrievalTrace {
+  return {
+    question: trace.question || '',
+    mode: trace.mode,
+    chunks: trace.chunks.map(c => ({ ...toCitation(c), text: c.text, score: c.score ?? undefined })),
+  };
+}
+
+// FastAPI reports errors as {"detail": "..."}, or a list of issues for validation failures.
+function parseErrorDetail(text: string, status: number, statusText: string) {
+  try {
+    const data = JSON.parse(text);
+    if (typeof data?.detail === 'string') return data.detail;
+    if (Array.isArray(data?.detail)) {
+      return data.detail.map((d: { msg?: unknown }) => d?.msg).filter(Boolean).join('; ');
+    }
+  } catch {
+    // Not JSON; fall back to the raw body
+  }
+  return text || statusText || `Request failed with status ${status}`;
+}
+
+async function readErrorDetail(res: Response) {
+  const text = await res.text().catch(() => '');
+  return parseErrorDetail(text, res.status, res.statusText);
+}
+
+// Splits newline-delimited JSON as it arrives, keeping any incomplete trailing line buffered.
+export function createNdjsonParser<T>(onEvent: (event: T) => void) {
+  let buffer = '';
+  return (chunk: string, final = false) => {
+    buffer += chunk;
+    const lines = buffer.split('\n');
+    buffer = final ? '' : lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.trim()) onEvent(JSON.parse(line));
+    }
+  };
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function send(path: string, init: RequestInit, { signal, retries = 0 }: RequestOptions = {}) {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const res = MOCK_API
+        ? await (await loadMockApi()).mockFetch(path, { ...init, signal })
+        : await fetch(`${API_BASE}${path}`, { ...init, signal });
+      if (res.ok) return res;
+      const error = new ApiError(res.status, await readErrorDetail(res));
+      if (res.status < 500 || attempt >= retries) throw error;
+    } catch (err) {
+      if (err instanceof ApiError && err.status < 500) throw err;
+      if (isAbortError(err) || attempt >= retries) throw err;
+    }
+    await wait(500 * 2 ** attempt);
+  }
+}
+
+async function sendJson<T>(path: string, init: RequestInit, options?: RequestOptions): Promise<T> {
+  const res = await send(path, init, options);
+  return res.json();
+}
+
+function jsonBody(body: unknown): RequestInit {
+  return {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  };
+}
+
+export function createSession(options: RequestOptions = { retries: 2 }) {
+  return sendJson<SessionCreated>('/session', { method: 'POST' }, options);
+}
+
+export function getSession(sessionId: string, options: RequestOptions = { retries: 2 }) {
+  return sendJson<SessionInfo>(`/session/${encodeURIComponent(sessionId)}`, { method: 'GET' }, options);
+}
+
+// Uses XMLHttpRequest rather than fetch, since only XHR reports upload progress.
+export function uploadDocuments(
+  sessionId: string,
+  files: File[],
+  persona?: string,
+  handlers: UploadHandlers = {},
+  { signal }: RequestOptions = {},
+): Promise<UploadResponse> {
+  const form = new FormData();
+  form.append('session_id', sessionId);
+  if (persona) form.append('persona', persona);
+  form.append('stream', 'true');
+  for (const f of files) {
+    form.append('files', f);
+  }
+  if (MOCK_API) return loadMockApi().then(mock => mock.mockUpload(form, handlers, signal));
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Upload cancelled', 'AbortError'));
+      return;
+    }
+    const xhr = new XMLHttpRequest();
+    let received = 0;
+    let result: UploadResponse | null = null;
+    let streamError: ApiError | null = null;
+    const parse = createNdjsonParser<UploadStreamEvent>((event) => {
+      if (event.type === 'phase') {
+        handlers.onPhase?.(event);
+      } else if (event.type === 'done') {
+        const { type, ...response } = event;
+        result = response;
+      } else if (event.type === 'error') {
+        streamError = new ApiError(xhr.status, event.detail || 'Upload failed');
+      }
+    });
+    const consume = (final = false) => {
+      const text = xhr.responseText;
+      parse(text.slice(received), final);
+      received = text.length;
+    };
+
+    xhr.open('POST', `${API_BASE}/upload`);
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) handlers.onUploadProgress?.(e.loaded, e.total);
+    };
+    xhr.onprogress = () => {
+      if (xhr.status >= 200 && xhr.status < 300) consume();
+    };
+    xhr.onload = () => {
+      if (xhr.status < 200 || xhr.status >= 300) {
+        reject(new ApiError(xhr.status, parseErrorDetail(xhr.responseText, xhr.status, xhr.statusText)));
+        return;
+      }
+      consume(true);
+      if (streamError) reject(streamError);
+      else if (result) resolve(result);
+      else reject(new ApiError(xhr.status, 'Upload ended unexpectedly'));
+    };
+    xhr.onerror = () => reject(new TypeError('Network request failed'));
+    xhr.onabort = () => reject(new DOMException('Upload cancelled', 'AbortError'));
+    const onAbort = () => xhr.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    // loadend follows load, error and abort alike, so the signal never outlives the request
+    xhr.onloadend = () => signal?.removeEventListener('abort', onAbort);
+    xhr.send(form);
+  });
+}
+
+export function listDocuments(sessionId: string, options: RequestOptions = { retries: 2 }) {
+  return sendJson<DocumentList>(`/session/${encodeURIComponent(sessionId)}/documents`, { method: 'GET' }, options);
+}
+
+export function deleteDocument(sessionId: string, documentId: string, options?: RequestOptions) {
+  return sendJson<DocumentRemoved>(
+    `/session/${encodeURIComponent(sessionId)}/documents/${encodeURIComponent(documentId)}`,
+    { method: 'DELETE' },
+    options,
+  );
+}
+
+export function getChunkContext(sessionId: string, chunkId: string, window = 1, options: RequestOptions = { retries: 2 }) {
+  return sendJson<ChunkContext>(
+    `/session/${encodeURIComponent(sessionId)}/chunks/${encodeURIComponent(chunkId)}?window=${window}`,
+    { method: 'GET' },
+    options,
+  );
+}
+
+// Direct link to the uploaded file, for embedding in an iframe or opening in a new tab
+export function documentFileUrl(sessionId: string, documentId: string) {
+  // Files only exist in the mock once uploaded through it, by which point it is loaded
+  if (MOCK_API) return mockApi?.mockFileUrl(documentId) ?? 'about:blank';
+  return `${API_BASE}/session/${encodeURIComponent(sessionId)}/documents/${encodeURIComponent(documentId)}/file`;
+}
+
+// Streams the answer as NDJSON events, reporting the growing text through onToken.
+export async function streamChat(
+  sessionId: string,
+  message: string,
+  onToken: (content: string) => void,
+  { regenerate = false, debug = false, documentIds, ...options }: ChatOptions = {},
+): Promise<ChatResponse> {
+  const res = await send('/chat', jsonBody({ session_id: sessionId, message, stream: true, regenerate, debug, document_ids: documentIds }), options);
+  if (!res.body) throw new ApiError(res.status, 'Chat stream unavailable');
+
+  let content = '';
+  let result: ChatResponse | null = null;
+  const parse = createNdjsonParser<ChatStreamEvent>((event) => {
+    if (event.type === 'token') {
+      content += event.content;
+      onToken(content);
+    } else if (event.type === 'error') {
+      throw new ApiError(res.status, event.detail || 'Chat failed');
+    } else if (event.type === 'done') {
+      result = {
+        answer: event.answer || content,
+        citations: event.citations || [],
+        turn: event.turn,
+        follow_ups: event.follow_ups || [],
+        retrieval: event.retrieval,
+      };
+    }
+  });
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  try {
+    while (!result) {
+      const { value, done } = await reader.read();
+      if (done) {
+        parse(decoder.decode(), true);
+        break;
+      }
+      parse(decoder.decode(value, { stream: true }));
+    }
+  } finally {
+    // An error event throws out of the loop above; release the response body either way
+    reader.cancel().catch(() => {});
+  }
+  if (result) return result;
+  throw new ApiError(res.status, 'Chat stream ended unexpectedly');
+}
+
+// Rewrites the backend chat_history, e.g. to match the conversation branch being shown
+export function replaceHistory(sessionId: string, turns: HistoryTurn[], options?: RequestOptions) {
+  return sendJson<HistoryReplaced>(
+    `/session/${encodeURIComponent(sessionId)}/history`,
+    { ...jsonBody({ turns }), method: 'PUT' },
+    options,
+  );
+}
+
+// Seeds a session with a previously exported conversation
+export function importConversation(sessionId: string, persona: string, turns: HistoryTurn[], options?: RequestOptions) {
+  return sendJson<ConversationImported>(
+    `/session/${encodeURIComponent(sessionId)}/import`,
+    jsonBody({ persona, turns }),
+    options,
+  );
+}
+
+// Makes the backend continue from a different answer for an earlier exchange
+export function updateHistoryTurn(sessionId: string, turn: number, answer: string, options?: RequestOptions) {
+  return sendJson<StatusResponse>(
+    `/session/${encodeURIComponent(sessionId)}/history/${turn}`,
+    { ...jsonBody({ answer }), method: 'PUT' },
+    options,
+  );
+}
+
+// Replaces the whole profile; the backend rebuilds the persona prompt from it
+export function updatePersona(sessionId: string, profile: PersonaProfile, options?: RequestOptions) {
+  return sendJson<PersonaProfile>(
+    `/session/${encodeURIComponent(sessionId)}/persona`,
+    { ...jsonBody(profile), method: 'PUT' },
+    options,
+  );
+}
+
+export function updateSettings(sessionId: string, settings: SessionSettings, options?: RequestOptions) {
+  return sendJson<SessionSettings>(
+    `/session/${encodeURIComponent(sessionId)}/settings`,
+    { ...jsonBody(settings), method: 'PUT' },
+    options,
+  );
+}
+
+// Asks the backend to read the indexed documents and propose who they are about
+export function suggestPersona(sessionId: string, options?: RequestOptions) {
+  return sendJson<PersonaSuggestion>(
+    `/session/${encodeURIComponent(sessionId)}/persona/suggestion`,
+    { method: 'POST' },
+    options,
+  );
+}
+
+export function resetSession(sessionId: string, options: RequestOptions = { retries: 2 }) {
+  return sendJson<StatusResponse>('/reset', jsonBody({ session_id: sessionId }), options);
+}
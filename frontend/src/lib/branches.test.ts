@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import type { Message } from './types';
+import { historyTurns, startBranch, switchBranch, withTurns } from './branches';
+
+const message = (id: string, role: Message['role'], extra: Partial<Message> = {}): Message => ({
+  id,
+  role,
+  content: `${id} text`,
+  timestamp: new Date(0),
+  ...extra,
+});
+
+const conversation = [message('q1', 'user'), message('a1', 'assistant'), message('q2', 'user'), message('a2', 'assistant')];
+
+describe('historyTurns', () => {
+  it('pairs each finished answer with the question before it', () => {
+    expect(historyTurns(conversation)).toEqual([
+      { question: 'q1 text', answer: 'a1 text' },
+      { question: 'q2 text', answer: 'a2 text' },
+    ]);
+  });
+
+  it('leaves out stopped, streaming and empty answers', () => {
+    const messages = [
+      message('q1', 'user'), message('a1', 'assistant', { stopped: true }),
+      message('q2', 'user'), message('a2', 'assistant', { isStreaming: true }),
+      message('q3', 'user'), message('a3', 'assistant', { content: '' }),
+    ];
+    expect(historyTurns(messages)).toEqual([]);
+  });
+});
+
+describe('withTurns', () => {
+  it('numbers only the answers the backend records', () => {
+    const messages = withTurns([
+      message('q1', 'user'), message('a1', 'assistant', { stopped: true }),
+      message('q2', 'user'), message('a2', 'assistant'),
+    ]);
+    expect(messages.map(m => m.turn)).toEqual([undefined, undefined, undefined, 0]);
+  });
+});
+
+describe('startBranch and switchBranch', () => {
+  const edited = [message('q2-edit', 'user'), message('a2-edit', 'assistant')];
+  const branched = startBranch(conversation, 2, edited);
+
+  it('keeps the old tail as a sibling and makes the new one active', () => {
+    expect(branched.map(m => m.id)).toEqual(['q1', 'a1', 'q2-edit', 'a2-edit']);
+    expect(branched[2].activeBranch).toBe(1);
+    expect(branched[2].branches?.map(tail => tail.map(m => m.id))).toEqual([['q2', 'a2'], ['q2-edit', 'a2-edit']]);
+  });
+
+  it('does not nest branches inside the stored tails', () => {
+    expect(branched[2].branches?.every(tail => tail[0].branches === undefined)).toBe(true);
+  });
+
+  it('switches back to an earlier branch and round-trips', () => {
+    const back = switchBranch(branched, 2, 0);
+    expect(back.map(m => m.id)).toEqual(['q1', 'a1', 'q2', 'a2']);
+    expect(back[2].activeBranch).toBe(0);
+    expect(switchBranch(back, 2, 1).map(m => m.id)).toEqual(['q1', 'a1', 'q2-edit', 'a2-edit']);
+  });
+
+  it('ignores a branch that does not exist', () => {
+    expect(switchBranch(branched, 2, 5)).toBe(branched);
+    expect(switchBranch(conversation, 0, 1)).toBe(conversation);
+  });
+});
@@ -0,0 +1,63 @@
+import type { Message } from './types';
+import { HistoryTurn } from './api';
+
+// A conversation is stored as its active path. Where a question was edited, that user
+// message keeps every sibling tail (the question and everything after it) in `branches`.
+
+const detach = (tail: Message[]): Message[] => {
+  if (!tail.length) return tail;
+  const { branches, activeBranch, ...first } = tail[0];
+  return [first, ...tail.slice(1)];
+};
+
+// Answers the backend keeps in chat_history: finished, non-empty and not stopped
+const isRecordedAnswer = (m: Message) => m.role === 'assistant' && !m.isStreaming && !m.stopped && !!m.content;
+
+export function historyTurns(messages: Message[]): HistoryTurn[] {
+  const turns: HistoryTurn[] = [];
+  messages.forEach((m, i) => {
+    const question = messages[i - 1];
+    if (isRecordedAnswer(m) && question?.role === 'user') {
+      turns.push({ question: question.content, answer: m.content });
+    }
+  });
+  return turns;
+}
+
+// Renumbers assistant messages to match a chat_history rebuilt from historyTurns
+export function withTurns(messages: Message[]): Message[] {
+  let turn = 0;
+  return messages.map((m, i) => {
+    if (m.role !== 'assistant') return m;
+    const recorded = isRecordedAnswer(m) && messages[i - 1]?.role === 'user';
+    return { ...m, turn: recorded ? turn++ : undefined };
+  });
+}
+
+// Starts a new branch at `index` whose tail is `tail`, keeping the current tail as a sibling.
+export function startBranch(messages: Message[], index: number, tail: Message[]): Message[] {
+  const current = messages[index];
+  const branches = current.branches ? [...current.branches] : [];
+  branches[current.activeBranch ?? 0] = detach(messages.slice(index));
+  branches.push(detach(tail));
+  const [first, ...rest] = tail;
+  return [
+    ...messages.slice(0, index),
+    { ...first, branches, activeBranch: branches.length - 1 },
+    ...rest,
+  ];
+}
+
+export function switchBranch(messages: Message[], index: number, branch: number): Message[] {
+  const current = messages[index];
+  const target = current.branches?.[branch];
+  if (!current.branches || !target?.length) return messages;
+  const branches = [...current.branches];
+  branches[current.activeBranch ?? 0] = detach(messages.slice(index));
+  const [first, ...rest] = target;
+  return [
+    ...messages.slice(0, index),
+    { ...first, branches, activeBranch: branch },
+    ...rest,
+  ];
+}
@@ -0,0 +1,479 @@
+import {
+  ApiError,
+  CHAT_MODELS,
+  ChatResponse,
+  CitationPayload,
+  DocumentInfo,
+  HistoryTurn,
+  PersonaProfile,
+  RetrievedChunkPayload,
+  SessionSettings,
+  UploadHandlers,
+  UploadResponse,
+  defaultSessionSettings,
+  emptyPersonaProfile,
+} from './api';
+
+// An in-browser stand-in for the FastAPI backend, so the UI can be built and demoed
+// offline. Sessions live in localStorage; answers are stitched from the indexed passages.
+
+const env = import.meta.env;
+
+// Milliseconds before each response; streamed words arrive ten times faster
+const LATENCY = Number(env.VITE_MOCK_LATENCY ?? 400);
+// Chance (0-1) that any request fails with a 500
+const ERROR_RATE = Number(env.VITE_MOCK_ERROR_RATE ?? 0);
+// Comma-separated endpoints that always fail: session, upload, chat, reset,
+// or "expired" to answer every session call as if the server had restarted
+const FAILING = new Set(String(env.VITE_MOCK_FAIL ?? '').split(',').map(s => s.trim()).filter(Boolean));
+
+const STORAGE_KEY = 'alive.mockApi';
+
+type Endpoint = 'session' | 'upload' | 'chat' | 'reset';
+
+interface MockChunk {
+  id: string;
+  documentId: string;
+  text: string;
+  page: number | null;
+}
+
+interface MockSession {
+  profile: PersonaProfile;
+  settings: SessionSettings;
+  files: DocumentInfo[];
+  chunks: MockChunk[];
+  turns: HistoryTurn[];
+  starterQuestions: string[];
+}
+
+// Stand-in content for files the browser cannot read as text (PDF, DOCX)
+const FIXTURE_PASSAGES = [
+  'Augusta Ada Byron was born in London on 10 December 1815, the only legitimate child of the poet Lord Byron and Annabella Milbanke. Her parents separated weeks after her birth, and her mother steered her towards mathematics and logic.',
+  'As a girl I was often ill, and for a long while I could not walk. I filled the hours designing a flying machine, studying the anatomy of birds to decide how its wings ought to be made.',
+  'In June 1833, at the age of seventeen, Ada was introduced to Charles Babbage at a London party. Soon afterwards she saw a demonstration of a fragment of his Difference Engine, and the two began a friendship that lasted the rest of her life.',
+  'In 1835 she married William King, who became Earl of Lovelace in 1838, making her Countess of Lovelace. They had three children.',
+  "Between 1842 and 1843 Ada translated Luigi Menabrea's article on Babbage's proposed Analytical Engine, adding notes that ran to nearly three times the length of the original.",
+  'Note G set out how the Analytical Engine could compute Bernoulli numbers, a sequence of operations often described as the first computer program.',
+  "She wrote that the Engine might act upon other things besides number, and that it could compose elaborate pieces of music if the relations of pitched sounds were expressed in its notation.",
+  "Ada called her approach poetical science, insisting that imagination was as necessary to mathematics as rigour.",
+  'She died on 27 November 1852, aged thirty-six, and was buried at her request beside her father in Hucknall, Nottinghamshire.',
+];
+
+const FIXTURE_QUESTIONS = [
+  'How did you first meet Charles Babbage?',
+  'What did your notes on the Analytical Engine describe?',
+  'What do you mean by poetical science?',
+  'Could the Engine do more than calculate numbers?',
+  'What was your childhood like?',
+  'Why did your mother want you to study mathematics?',
+];
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new DOMException('Request cancelled', 'AbortError'));
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('Request cancelled', 'AbortError'));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const newId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+
+function loadSessions(): Record<string, MockSession> {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function saveSessions(sessions: Record<string, MockSession>) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions));
+  } catch {
+    // Storage full or disabled; mock sessions then last until the next reload
+  }
+}
+
+// Object URLs for files uploaded since the page loaded, for the citation viewer
+const fileUrls = new Map<string, string>();
+
+export function mockFileUrl(documentId: string) {
+  return fileUrls.get(documentId) ?? 'about:blank';
+}
+
+// The failure configured for an endpoint, if this request should fail
+function injectedError(endpoint: Endpoint, sessionId?: string): ApiError | null {
+  if (sessionId !== undefined && (FAILING.has('expired') || !loadSessions()[sessionId])) {
+    return new ApiError(404, 'Invalid session_id');
+  }
+  if (FAILING.has(endpoint) || Math.random() < ERROR_RATE) {
+    return new ApiError(500, `Mock ${endpoint} failure`);
+  }
+  return null;
+}
+
+const json = (data: unknown, status = 200) => new Response(JSON.stringify(data), {
+  status,
+  headers: { 'Content-Type': 'application/json' },
+});
+
+const errorResponse = (err: ApiError) => json({ detail: err.detail }, err.status);
+
+function summary(session: MockSession, files: DocumentInfo[], chunks: number): UploadResponse {
+  return {
+    status: 'ok',
+    documents: files.reduce((n, f) => n + (f.pages ?? 1), 0),
+    chunks,
+    files,
+    starter_questions: session.starterQuestions,
+  };
+}
+
+function splitText(text: string, { chunk_size, chunk_overlap }: SessionSettings) {
+  const chunks: string[] = [];
+  const clean = text.replace(/\s+/g, ' ').trim();
+  for (let start = 0; start < clean.length; start += chunk_size - chunk_overlap) {
+    chunks.push(clean.slice(start, start + chunk_size));
+    if (start + chunk_size >= clean.length) break;
+  }
+  return chunks;
+}
+
+// The file types backend/main.py accepts; anything else fails the whole upload
+const ALLOWED_EXTENSIONS = ['.pdf', '.docx', '.txt', '.md'];
+
+const extension = (filename: string) => {
+  const dot = filename.lastIndexOf('.');
+  return dot > 0 ? filename.slice(dot).toLowerCase() : '';
+};
+
+// Plain-text files are chunked for real; anything else gets the fixture passages
+async function readPassages(file: File, settings: SessionSettings) {
+  const ext = extension(file.name).slice(1);
+  if (ext === 'txt' || ext === 'md') {
+    const chunks = splitText(await file.text(), settings);
+    return { ext, pages: null, passages: chunks.map(text => ({ text, page: null })) };
+  }
+  const pdf = ext === 'pdf';
+  return {
+    ext,
+    pages: pdf ? Math.ceil(FIXTURE_PASSAGES.length / 2) : null,
+    passages: FIXTURE_PASSAGES.map((text, i) => ({ text, page: pdf ? Math.floor(i / 2) + 1 : null })),
+  };
+}
+
+export async function mockUpload(form: FormData, handlers: UploadHandlers, signal?: AbortSignal): Promise<UploadResponse> {
+  const sessionId = String(form.get('session_id') ?? '');
+  const persona = String(form.get('persona') ?? '').trim();
+  const files = form.getAll('files') as File[];
+
+  const total = files.reduce((n, f) => n + f.size, 0);
+  for (let step = 1; step <= 5; step++) {
+    await delay(LATENCY / 5, signal);
+    handlers.onUploadProgress?.((total * step) / 5, total);
+  }
+  const failure = injectedError('upload', sessionId);
+  if (failure) throw failure;
+  const unsupported = files.find(f => !ALLOWED_EXTENSIONS.includes(extension(f.name)));
+  if (unsupported) throw new ApiError(400, `Unsupported file type: ${extension(unsupported.name)}`);
+
+  const sessions = loadSessions();
+  const session = sessions[sessionId];
+  const added: DocumentInfo[] = [];
+  const chunks: MockChunk[] = [];
+  for (const file of files) {
+    handlers.onPhase?.({ type: 'phase', phase: 'parsing', file: file.name });
+    await delay(LATENCY, signal);
+    const { ext, pages, passages } = await readPassages(file, session.settings);
+    const doc: DocumentInfo = {
+      id: newId(),
+      filename: file.name,
+      type: ext,
+      pages,
+      chunks: passages.length,
+      uploaded_at: new Date().toISOString(),
+    };
+    added.push(doc);
+    chunks.push(...passages.map(p => ({ id: newId(), documentId: doc.id, ...p })));
+    fileUrls.set(doc.id, URL.createObjectURL(file));
+  }
+  if (!chunks.length) throw new ApiError(400, 'No documents were loaded');
+
+  handlers.onPhase?.({ type: 'phase', phase: 'embedding', chunks: chunks.length });
+  await delay(LATENCY, signal);
+  handlers.onPhase?.({ type: 'phase', phase: 'questions' });
+  await delay(LATENCY, signal);
+
+  session.files.push(...added);
+  session.chunks.push(...chunks);
+  session.starterQuestions = FIXTURE_QUESTIONS.slice(0, 5);
+  if (persona) session.profile.display_name = persona;
+  saveSessions(sessions);
+  return summary(session, added, chunks.length);
+}
+
+const words = (text: string) => new Set(text.toLowerCase().match(/\w{3,}/g) ?? []);
+
+function describeChunk(session: MockSession, chunk: MockChunk, index: number | null): CitationPayload {
+  return {
+    source: session.files.find(f => f.id === chunk.documentId)?.filename ?? null,
+    page: chunk.page,
+    snippet: chunk.text.slice(0, 400),
+    index,
+    document_id: chunk.documentId,
+    chunk_id: chunk.id,
+  };
+}
+
+// The k chunks sharing the most words with the question, within the requested documents
+function retrieve(session: MockSession, question: string, documentIds?: string[]): RetrievedChunkPayload[] {
+  const asked = words(question);
+  const scored = session.chunks
+    .filter(c => !documentIds || documentIds.includes(c.documentId))
+    .map(chunk => ({ chunk, overlap: [...words(chunk.text)].filter(w => asked.has(w)).length }))
+    .sort((a, b) => b.overlap - a.overlap)
+    .slice(0, session.settings.k);
+  return scored.map(({ chunk, overlap }, i) => ({
+    ...describeChunk(session, chunk, i + 1),
+    text: chunk.text,
+    score: Math.min(1, 0.35 + overlap * 0.15),
+  }));
+}
+
+function composeAnswer(retrieved: RetrievedChunkPayload[]) {
+  if (!retrieved.length) return 'I am afraid I cannot recall anything about that.';
+  const recalled = retrieved.slice(0, 2).map(c => `${c.text.split(/(?<=[.!?])\s/)[0]} [${c.index}]`);
+  return `From what I remember: ${recalled.join(' ')}`;
+}
+
+function answerChat(session: MockSession, body: any): ChatResponse | ApiError {
+  if (!session.chunks.length) return new ApiError(400, 'Upload documents before chatting');
+  if (body.regenerate && !session.turns.length) return new ApiError(400, 'Nothing to regenerate');
+  const documentIds: string[] | undefined = body.document_ids ?? undefined;
+  if (documentIds && !documentIds.length) return new ApiError(400, 'Select at least one document');
+  const unknown = documentIds?.find(id => !session.files.some(f => f.id === id));
+  if (unknown) return new ApiError(404, `Unknown document_id: ${unknown}`);
+
+  const question: string = body.regenerate ? session.turns[session.turns.length - 1].question : body.message;
+  const retrieved = retrieve(session, question, documentIds);
+  const answer = composeAnswer(retrieved);
+  const cited = retrieved.filter(c => answer.includes(`[${c.index}]`));
+  const asked = new Set([...session.turns.map(t => t.question), question]);
+  return {
+    answer,
+    citations: cited.map(({ text, score, ...citation }) => citation),
+    turn: body.regenerate ? session.turns.length - 1 : session.turns.length,
+    follow_ups: FIXTURE_QUESTIONS.filter(q => !asked.has(q)).slice(0, 3),
+    retrieval: body.debug ? { question, mode: session.settings.retrieval_mode, chunks: retrieved } : undefined,
+  };
+}
+
+function recordTurn(sessionId: string, response: ChatResponse, question: string) {
+  const sessions = loadSessions();
+  const session = sessions[sessionId];
+  if (!session) return;
+  session.turns[response.turn] = { question, answer: response.answer };
+  saveSessions(sessions);
+}
+
+// NDJSON like the backend's stream: one token event per word, then done.
+// Aborting fails the body read with an AbortError, and the turn is never recorded.
+function streamResponse(sessionId: string, response: ChatResponse, question: string, signal?: AbortSignal) {
+  const encoder = new TextEncoder();
+  const line = (event: unknown) => encoder.encode(JSON.stringify(event) + '\n');
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        for (const token of response.answer.match(/\S+\s*/g) ?? []) {
+          await delay(LATENCY / 10, signal);
+          controller.enqueue(line({ type: 'token', content: token }));
+        }
+        await delay(LATENCY, signal);
+        recordTurn(sessionId, response, question);
+        controller.enqueue(line({ type: 'done', ...response }));
+        controller.close();
+      } catch (err) {
+        controller.error(err);
+      }
+    },
+  });
+  return new Response(body, { status: 200, headers: { 'Content-Type': 'application/x-ndjson' } });
+}
+
+function suggestPersona(session: MockSession) {
+  const cite = (phrase: string) => session.chunks
+    .filter(c => c.text.includes(phrase))
+    .slice(0, 2)
+    .map((c, i) => describeChunk(session, c, i + 1));
+  return {
+    name: { value: 'Ada Lovelace', citations: cite('Lovelace') },
+    life_dates: { value: '1815-1852', citations: [...cite('1815'), ...cite('1852')] },
+    biography: {
+      value: 'Mathematician and writer, daughter of Lord Byron, whose notes on Babbage\'s Analytical Engine describe what is often called the first computer program.',
+      citations: cite('Analytical Engine'),
+    },
+    phrases: [{ value: 'poetical science', citations: cite('poetical science') }],
+  };
+}
+
+const inRange = (value: unknown, min: number, max: number, integer = false) => (
+  typeof value === 'number' && value >= min && value <= max && (!integer || Number.isInteger(value))
+);
+
+// The same rules as SessionSettings in backend/main.py, answered with a 422 like FastAPI's
+function settingsError(settings: SessionSettings): ApiError | null {
+  const problems = [
+    !CHAT_MODELS.includes(settings.model) && `model must be one of: ${CHAT_MODELS.join(', ')}`,
+    !inRange(settings.temperature, 0, 2) && 'temperature must be between 0 and 2',
+    !inRange(settings.k, 1, 20, true) && 'k must be a whole number from 1 to 20',
+    !['similarity', 'mmr'].includes(settings.search_type) && 'search_type must be similarity or mmr',
+    !['vector', 'keyword', 'hybrid'].includes(settings.retrieval_mode) && 'retrieval_mode must be vector, keyword or hybrid',
+    !inRange(settings.chunk_size, 200, 4000, true) && 'chunk_size must be a whole number from 200 to 4000',
+    !inRange(settings.chunk_overlap, 0, 1000, true) && 'chunk_overlap must be a whole number from 0 to 1000',
+    settings.chunk_overlap >= settings.chunk_size && 'chunk_overlap must be smaller than chunk_size',
+  ].filter(Boolean);
+  return problems.length ? new ApiError(422, problems.join('; ')) : null;
+}
+
+type Route = [string, RegExp, (session: MockSession, params: string[], body: any) => unknown];
+
+// Session-scoped routes, mirroring backend/main.py; each handler mutates the stored session
+const SESSION_ROUTES: Route[] = [
+  ['GET', /^\/session\/([^/]+)$/, (s, [id]) => ({
+    session_id: id,
+    persona: s.profile.display_name || null,
+    profile: s.profile,
+    settings: s.settings,
+    documents: s.files.reduce((n, f) => n + (f.pages ?? 1), 0),
+    chunks: s.chunks.length,
+    turns: s.turns.length,
+    starter_questions: s.starterQuestions,
+  })],
+  ['GET', /^\/session\/([^/]+)\/documents$/, s => ({ documents: s.files })],
+  ['DELETE', /^\/session\/([^/]+)\/documents\/([^/]+)$/, (s, [, documentId]) => {
+    const file = s.files.find(f => f.id === documentId);
+    if (!file) return new ApiError(404, 'Unknown document_id');
+    s.files = s.files.filter(f => f.id !== documentId);
+    s.chunks = s.chunks.filter(c => c.documentId !== documentId);
+    if (!s.files.length) s.starterQuestions = [];
+    return { status: 'ok', documents: s.files.reduce((n, f) => n + (f.pages ?? 1), 0), chunks: s.chunks.length };
+  }],
+  ['GET', /^\/session\/([^/]+)\/chunks\/([^/?]+)(?:\?window=(\d+))?$/, (s, [, chunkId, window = '1']) => {
+    const chunk = s.chunks.find(c => c.id === chunkId);
+    const file = chunk && s.files.find(f => f.id === chunk.documentId);
+    if (!chunk || !file) return new ApiError(404, 'Unknown chunk_id');
+    const siblings = s.chunks.filter(c => c.documentId === chunk.documentId);
+    const pos = siblings.indexOf(chunk);
+    const size = Math.max(0, Math.min(Number(window), 5));
+    const describe = (c: MockChunk) => ({ id: c.id, text: c.text, page: c.page });
+    return {
+      document_id: file.id,
+      filename: file.filename,
+      type: file.type,
+      chunk: describe(chunk),
+      before: siblings.slice(Math.max(0, pos - size), pos).map(describe),
+      after: siblings.slice(pos + 1, pos + 1 + size).map(describe),
+    };
+  }],
+  ['PUT', /^\/session\/([^/]+)\/history$/, (s, _, body) => {
+    s.turns = body.turns;
+    return { status: 'ok', turns: s.turns.length };
+  }],
+  ['PUT', /^\/session\/([^/]+)\/history\/(\d+)$/, (s, [, turn], body) => {
+    const entry = s.turns[Number(turn)];
+    if (!entry) return new ApiError(404, 'Unknown turn');
+    entry.answer = body.answer;
+    return { status: 'ok' };
+  }],
+  ['POST', /^\/session\/([^/]+)\/import$/, (s, _, body) => {
+    if (body.persona?.trim()) s.profile.display_name = body.persona.trim();
+    s.turns = body.turns;
+    return { status: 'ok', persona: s.profile.display_name || null, turns: s.turns.length };
+  }],
+  ['GET', /^\/session\/([^/]+)\/persona$/, s => s.profile],
+  ['PUT', /^\/session\/([^/]+)\/persona$/, (s, _, body) => {
+    s.profile = { ...emptyPersonaProfile(), ...body };
+    return s.profile;
+  }],
+  ['POST', /^\/session\/([^/]+)\/persona\/suggestion$/, s => (
+    s.chunks.length ? suggestPersona(s) : new ApiError(400, 'Upload documents before suggesting a persona')
+  )],
+  ['GET', /^\/session\/([^/]+)\/settings$/, s => s.settings],
+  ['PUT', /^\/session\/([^/]+)\/settings$/, (s, _, body) => {
+    const settings = { ...defaultSessionSettings(), ...body };
+    const invalid = settingsError(settings);
+    if (invalid) return invalid;
+    s.settings = settings;
+    return s.settings;
+  }],
+];
+
+// Answers a request for `path` (relative to the API base) the way the backend would
+export async function mockFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  const method = (init.method ?? 'GET').toUpperCase();
+  const body = typeof init.body === 'string' ? JSON.parse(init.body) : {};
+  await delay(LATENCY, init.signal ?? undefined);
+
+  if (method === 'POST' && path === '/session') {
+    const failure = injectedError('session');
+    if (failure) return errorResponse(failure);
+    const sessionId = newId();
+    const sessions = loadSessions();
+    sessions[sessionId] = {
+      profile: emptyPersonaProfile(),
+      settings: defaultSessionSettings(),
+      files: [],
+      chunks: [],
+      turns: [],
+      starterQuestions: [],
+    };
+    saveSessions(sessions);
+    return json({ session_id: sessionId });
+  }
+
+  if (method === 'POST' && path === '/reset') {
+    const failure = injectedError('reset');
+    if (failure) return errorResponse(failure);
+    const sessions = loadSessions();
+    delete sessions[body.session_id];
+    saveSessions(sessions);
+    return json({ status: 'ok' });
+  }
+
+  if (method === 'POST' && path === '/chat') {
+    const failure = injectedError('chat', String(body.session_id ?? ''));
+    if (failure) return errorResponse(failure);
+    const session = loadSessions()[body.session_id];
+    const result = answerChat(session, body);
+    if (result instanceof ApiError) return errorResponse(result);
+    const question = body.regenerate ? session.turns[session.turns.length - 1].question : body.message;
+    if (body.stream) return streamResponse(body.session_id, result, question, init.signal ?? undefined);
+    recordTurn(body.session_id, result, question);
+    return json(result);
+  }
+
+  for (const [routeMethod, pattern, handle] of SESSION_ROUTES) {
+    const match = method === routeMethod ? pattern.exec(path) : null;
+    if (!match) continue;
+    const sessionId = decodeURIComponent(match[1]);
+    const failure = injectedError('session', sessionId);
+    if (failure) return errorResponse(failure);
+    const sessions = loadSessions();
+    const params = match.slice(1).map(p => (p === undefined ? p : decodeURIComponent(p)));
+    const result = handle(sessions[sessionId], params, body);
+    if (result instanceof ApiError) return errorResponse(result);
+    saveSessions(sessions);
+    return json(result);
+  }
+
+  return json({ detail: 'Not Found' }, 404);
+}
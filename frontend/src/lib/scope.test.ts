@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { inScope, requestDocumentIds, toggleScope } from './scope';
+
+const ids = ['a', 'b', 'c'];
+
+describe('toggleScope', () => {
+  it('narrows an empty scope to every other document', () => {
+    expect(toggleScope([], ids, 'b')).toEqual(['a', 'c']);
+  });
+
+  it('never unticks the last document', () => {
+    expect(toggleScope(['a'], ids, 'a')).toEqual(['a']);
+  });
+
+  it('widens back to every document once all are ticked', () => {
+    expect(toggleScope(['a', 'c'], ids, 'b')).toEqual([]);
+  });
+
+  it('adds and removes single documents in between', () => {
+    expect(toggleScope(['a'], ids, 'b')).toEqual(['a', 'b']);
+    expect(toggleScope(['a', 'b'], ids, 'a')).toEqual(['b']);
+  });
+});
+
+describe('inScope', () => {
+  it('treats an empty scope as every document', () => {
+    expect(inScope([], 'a')).toBe(true);
+    expect(inScope(['b'], 'a')).toBe(false);
+  });
+});
+
+describe('requestDocumentIds', () => {
+  it('sends nothing for an empty or missing scope', () => {
+    expect(requestDocumentIds([], ids)).toBeUndefined();
+    expect(requestDocumentIds(undefined, ids)).toBeUndefined();
+  });
+
+  it('drops documents removed since the scope was chosen', () => {
+    expect(requestDocumentIds(['a', 'gone'], ids)).toEqual(['a']);
+    expect(requestDocumentIds(['gone'], ids)).toBeUndefined();
+  });
+});
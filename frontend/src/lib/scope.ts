@@ -0,0 +1,24 @@
+// A scope is the list of document ids answers may draw on. An empty scope means every
+// document, so newly uploaded files are searched until the user narrows it again.
+// Ids rather than filenames, so two uploads of the same name stay apart.
+
+export function inScope(scope: string[], documentId: string) {
+  return !scope.length || scope.includes(documentId);
+}
+
+// Ticks or unticks one document; ticking the last missing one widens back to everything
+export function toggleScope(scope: string[], documentIds: string[], documentId: string): string[] {
+  const current = scope.length ? scope : documentIds;
+  const next = current.includes(documentId)
+    ? current.filter(id => id !== documentId)
+    : [...current, documentId];
+  if (!next.length) return scope;
+  return documentIds.every(id => next.includes(id)) ? [] : next;
+}
+
+// The document ids to send with a question, or undefined to search every document.
+// Documents removed since the scope was chosen are dropped.
+export function requestDocumentIds(scope: string[] | undefined, documentIds: string[]) {
+  const ids = (scope || []).filter(id => documentIds.includes(id));
+  return ids.length ? ids : undefined;
+}
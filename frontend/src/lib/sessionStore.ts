@@ -0,0 +1,119 @@
+import type { AnswerVariant, Message } from './types';
+import { PersonaProfile, SessionSettings, defaultSessionSettings, emptyPersonaProfile } from './api';
+
+const STORAGE_KEY = 'alive.sessions';
+
+export interface StoredSession {
+  sessionId: string;
+  title: string;
+  persona: string;
+  profile: PersonaProfile;
+  settings: SessionSettings;
+  documentCount: number;
+  chunkCount: number;
+  starterQuestions: string[];
+  // Ids of the documents this conversation is limited to; empty searches every document
+  scope: string[];
+  chatHistory: Message[];
+  updatedAt: Date;
+}
+
+export interface StoredWorkspace {
+  activeSessionId: string;
+  sessions: StoredSession[];
+}
+
+// The JSON forms of the above, as read back from localStorage: dates are strings, and
+// sessions saved by older versions may lack any field added since.
+interface SerializedVariant extends Omit<AnswerVariant, 'timestamp'> {
+  timestamp: string;
+}
+
+interface SerializedMessage extends Omit<Message, 'timestamp' | 'variants' | 'branches'> {
+  timestamp: string;
+  variants?: SerializedVariant[];
+  branches?: SerializedMessage[][];
+}
+
+interface SerializedSession extends Partial<Omit<StoredSession, 'profile' | 'settings' | 'chatHistory' | 'updatedAt'>> {
+  profile?: Partial<PersonaProfile>;
+  settings?: Partial<SessionSettings>;
+  chatHistory?: SerializedMessage[];
+  updatedAt?: string;
+}
+
+interface SerializedWorkspace {
+  activeSessionId?: string;
+  sessions?: SerializedSession[];
+}
+
+export function createStoredSession(sessionId: string): StoredSession {
+  return {
+    sessionId,
+    title: '',
+    persona: '',
+    profile: emptyPersonaProfile(),
+    settings: defaultSessionSettings(),
+    documentCount: 0,
+    chunkCount: 0,
+    starterQuestions: [],
+    scope: [],
+    chatHistory: [],
+    updatedAt: new Date(),
+  };
+}
+
+export function sessionLabel(session: StoredSession) {
+  return session.title || session.persona || 'New conversation';
+}
+
+// Scopes saved before they switched to document ids hold filenames, which match no
+// document now and would only show up as removed ones. Both the backend's and the mock's
+// ids are lowercase alphanumeric, so anything else marks the scope as a legacy one.
+const idScope = (scope: string[] | undefined) => (
+  scope?.every(entry => /^[0-9a-z]+$/.test(entry)) ? scope : undefined
+);
+
+function reviveMessage(m: SerializedMessage): Message {
+  return {
+    ...m,
+    scope: idScope(m.scope),
+    timestamp: new Date(m.timestamp),
+    variants: m.variants?.map(v => ({ ...v, timestamp: new Date(v.timestamp) })),
+    branches: m.branches?.map(tail => tail.map(reviveMessage)),
+  };
+}
+
+// Sessions are stored as JSON, so timestamps come back as strings and need reviving.
+export function loadStoredWorkspace(): StoredWorkspace {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return { activeSessionId: '', sessions: [] };
+    const data: SerializedWorkspace | null = JSON.parse(raw);
+    const sessions: StoredSession[] = (data?.sessions || [])
+      .filter((s): s is SerializedSession & { sessionId: string } => !!s?.sessionId)
+      .map(s => ({
+        ...createStoredSession(s.sessionId),
+        ...s,
+        // Sessions saved before profiles existed only had a persona name
+        profile: { ...emptyPersonaProfile(), display_name: s.persona || '', ...s.profile },
+        // Fields added to the settings since they were saved get their defaults
+        settings: { ...defaultSessionSettings(), ...s.settings },
+        // A legacy filename scope goes back to every document rather than none
+        scope: idScope(s.scope) ?? [],
+        updatedAt: s.updatedAt ? new Date(s.updatedAt) : new Date(),
+        chatHistory: (s.chatHistory || []).map(reviveMessage),
+      }));
+    return { activeSessionId: data?.activeSessionId || '', sessions };
+  } catch {
+    return { activeSessionId: '', sessions: [] };
+  }
+}
+
+export function saveStoredWorkspace(workspace: StoredWorkspace) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(workspace));
+  } catch {
+    // Storage may be full or disabled; the sessions simply won't survive a reload.
+  }
+}
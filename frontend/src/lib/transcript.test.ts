@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import type { Message } from './types';
+import {
+  TRANSCRIPT_FORMAT,
+  TranscriptError,
+  TranscriptMeta,
+  parseTranscriptFile,
+  toTranscriptFile,
+  transcriptMessages,
+} from './transcript';
+
+const meta: TranscriptMeta = {
+  persona: 'Ada Lovelace',
+  title: 'On engines',
+  sessionDate: new Date('2025-11-09T10:00:00Z'),
+  documents: [{ id: 'd1', filename: 'notes.pdf', type: 'pdf', pages: 3, chunks: 12, uploaded_at: '2025-11-09T09:00:00Z' }],
+};
+
+const messages: Message[] = [
+  { id: 'm1', role: 'user', content: 'What is the engine for?', timestamp: new Date('2025-11-09T10:01:00Z') },
+  {
+    id: 'm2',
+    role: 'assistant',
+    content: 'Computing tables [1].',
+    timestamp: new Date('2025-11-09T10:01:05Z'),
+    citations: [{ filename: 'notes.pdf', page: 2, snippet: 'tables', index: 1, documentId: 'd1', chunkId: 'c1' }],
+  },
+  { id: 'm3', role: 'assistant', content: 'Still going', timestamp: new Date(), isStreaming: true },
+];
+
+const exported = () => JSON.parse(JSON.stringify(toTranscriptFile(messages, meta)));
+
+describe('parseTranscriptFile', () => {
+  it('round-trips an exported transcript', () => {
+    const file = parseTranscriptFile(JSON.stringify(exported()));
+    expect(file.persona).toBe('Ada Lovelace');
+    expect(file.title).toBe('On engines');
+    expect(file.sessionDate).toBe('2025-11-09T10:00:00.000Z');
+    expect(file.documents).toEqual([{ filename: 'notes.pdf', type: 'pdf', pages: 3, chunks: 12 }]);
+
+    const imported = transcriptMessages(file);
+    expect(imported.map(m => [m.role, m.content])).toEqual([
+      ['user', 'What is the engine for?'],
+      ['assistant', 'Computing tables [1].'],
+    ]);
+    expect(imported[1].timestamp.toISOString()).toBe('2025-11-09T10:01:05.000Z');
+    // Ids from the exporting session's index are not carried over
+    expect(imported[1].citations).toEqual([{ filename: 'notes.pdf', page: 2, snippet: 'tables', index: 1 }]);
+  });
+
+  it('rejects files that are not exported conversations', () => {
+    expect(() => parseTranscriptFile('not json')).toThrow(TranscriptError);
+    expect(() => parseTranscriptFile('[]')).toThrow('not an exported Alive conversation');
+    expect(() => parseTranscriptFile(JSON.stringify({ format: TRANSCRIPT_FORMAT, version: 99, messages: [] })))
+      .toThrow('newer version');
+    expect(() => parseTranscriptFile(JSON.stringify({ format: TRANSCRIPT_FORMAT, version: 1 })))
+      .toThrow('no messages');
+  });
+
+  it('skips malformed messages and keeps only checked fields', () => {
+    const data = exported();
+    data.extra = 'ignored';
+    data.messages.push(
+      { role: 'system', content: 'x', timestamp: '2025-11-09T10:02:00Z' },
+      { role: 'user', content: 'no date', timestamp: 'yesterday' },
+      { role: 'assistant', content: 'half', timestamp: '2025-11-09T10:03:00Z', stopped: 'yes' },
+    );
+    const file = parseTranscriptFile(JSON.stringify(data));
+    expect(file).not.toHaveProperty('extra');
+    expect(file.messages.map(m => m.content)).toEqual(['What is the engine for?', 'Computing tables [1].', 'half']);
+    expect(file.messages[2].stopped).toBeUndefined();
+  });
+});
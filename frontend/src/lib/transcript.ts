@@ -0,0 +1,327 @@
+import type { Citation, Message } from './types';
+import { DocumentInfo } from './api';
+
+export type TranscriptFormat = 'markdown' | 'json' | 'html' | 'pdf';
+
+export interface TranscriptMeta {
+  persona: string;
+  title: string;
+  sessionDate: Date;
+  documents: DocumentInfo[];
+}
+
+// Versioned so a later import can recognise and migrate older exports
+export const TRANSCRIPT_FORMAT = 'alive.transcript';
+export const TRANSCRIPT_VERSION = 1;
+
+export interface TranscriptDocument {
+  filename: string;
+  type: string;
+  pages: number | null;
+  chunks: number;
+}
+
+export interface TranscriptMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: string;
+  citations?: Citation[];
+  stopped?: boolean;
+}
+
+export interface TranscriptFile {
+  format: typeof TRANSCRIPT_FORMAT;
+  version: number;
+  exportedAt: string;
+  persona: string;
+  title: string;
+  sessionDate: string;
+  documents: TranscriptDocument[];
+  messages: TranscriptMessage[];
+}
+
+const speaker = (m: Message, meta: TranscriptMeta) => (m.role === 'user' ? 'You' : meta.persona || 'Assistant');
+
+const headline = (meta: TranscriptMeta) => meta.title || (meta.persona ? `Conversation with ${meta.persona}` : 'Conversation');
+
+const describeCitation = (c: Citation) => [c.filename, c.page ? `p. ${c.page}` : ''].filter(Boolean).join(', ');
+
+// Messages worth exporting: finished and not empty
+const exportable = (messages: Message[]) => messages.filter(m => !m.isStreaming && m.content);
+
+export function toMarkdown(messages: Message[], meta: TranscriptMeta) {
+  const lines = [
+    `# ${headline(meta)}`,
+    '',
+    `- **Persona:** ${meta.persona || 'Unnamed'}`,
+    `- **Session date:** ${meta.sessionDate.toLocaleString()}`,
+    `- **Documents:** ${meta.documents.length ? meta.documents.map(d => d.filename).join(', ') : 'None'}`,
+    '',
+  ];
+  const footnotes: string[] = [];
+
+  for (const m of exportable(messages)) {
+    // Inline [n] markers become numbered footnotes that run across the whole transcript
+    const local = new Map<number, number>();
+    const noteFor = (c: Citation) => {
+      footnotes.push(`[^${footnotes.length + 1}]: ${describeCitation(c)}: "${c.snippet.replace(/\s+/g, ' ').trim()}"`);
+      return footnotes.length;
+    };
+    let content = m.content.replace(/\[(\d+)\]/g, (marker, n) => {
+      const citation = m.citations?.find(c => c.index === Number(n));
+      if (!citation) return marker;
+      if (!local.has(citation.index!)) local.set(citation.index!, noteFor(citation));
+      return `[^${local.get(citation.index!)}]`;
+    });
+    // Citations the text never points at are still listed after the answer
+    const unreferenced = (m.citations || []).filter(c => c.index === undefined || !local.has(c.index));
+    if (unreferenced.length) {
+      content += ' ' + unreferenced.map(c => `[^${noteFor(c)}]`).join('');
+    }
+
+    lines.push(`**${speaker(m, meta)}** (${m.timestamp.toLocaleString()})${m.stopped ? ' [stopped early]' : ''}`, '');
+    lines.push(m.role === 'user' ? content.split('\n').map(l => `> ${l}`).join('\n') : content, '');
+  }
+
+  if (footnotes.length) lines.push('---', '', ...footnotes, '');
+  return lines.join('\n');
+}
+
+export function toTranscriptFile(messages: Message[], meta: TranscriptMeta): TranscriptFile {
+  return {
+    format: TRANSCRIPT_FORMAT,
+    version: TRANSCRIPT_VERSION,
+    exportedAt: new Date().toISOString(),
+    persona: meta.persona,
+    title: meta.title,
+    sessionDate: meta.sessionDate.toISOString(),
+    documents: meta.documents.map(({ filename, type, pages, chunks }) => ({ filename, type, pages, chunks })),
+    messages: exportable(messages).map(m => ({
+      role: m.role,
+      content: m.content,
+      timestamp: m.timestamp.toISOString(),
+      citations: m.citations,
+      stopped: m.stopped || undefined,
+    })),
+  };
+}
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+export function toHtml(messages: Message[], meta: TranscriptMeta) {
+  const body = exportable(messages).map((m) => {
+    const content = escapeHtml(m.content).replace(/\[(\d+)\]/g, '<sup>[$1]</sup>');
+    const sources = (m.citations || []).map(c => `
+        <li><strong>${c.index ? `[${c.index}] ` : ''}${escapeHtml(describeCitation(c))}</strong>
+          <blockquote>${escapeHtml(c.snippet)}</blockquote></li>`).join('');
+    return `
+    <section class="message ${m.role}">
+      <h3>${escapeHtml(speaker(m, meta))} <time>${escapeHtml(m.timestamp.toLocaleString())}</time>${m.stopped ? ' <em>(stopped early)</em>' : ''}</h3>
+      <div class="content">${content}</div>
+      ${sources ? `<ol class="sources">${sources}</ol>` : ''}
+    </section>`;
+  }).join('');
+
+  const documents = meta.documents.length
+    ? meta.documents.map(d => `<li>${escapeHtml(d.filename)}${d.pages ? ` (${d.pages} pages)` : ''}</li>`).join('')
+    : '<li>None</li>';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(headline(meta))}</title>
+<style>
+  body { font-family: Georgia, 'Times New Roman', serif; max-width: 48rem; margin: 2rem auto; padding: 0 1.5rem; color: #1c1917; line-height: 1.6; }
+  header { border-bottom: 2px solid #78350f; margin-bottom: 1.5rem; padding-bottom: 1rem; }
+  header dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; margin: 0; }
+  header dt { font-weight: bold; }
+  header dd { margin: 0; }
+  header ul { margin: 0; padding-left: 1.25rem; }
+  .message { margin-bottom: 1.5rem; break-inside: avoid; }
+  .message h3 { font-size: 1rem; margin: 0 0 0.25rem; color: #78350f; }
+  .message.user h3 { color: #44403c; }
+  .message time { font-weight: normal; font-size: 0.8rem; color: #78716c; margin-left: 0.5rem; }
+  .content { white-space: pre-wrap; }
+  .sources { font-size: 0.85rem; color: #44403c; border-left: 3px solid #d6d3d1; padding-left: 1.75rem; }
+  .sources blockquote { margin: 0.25rem 0 0.5rem; font-style: italic; }
+  @media print {
+    body { margin: 0; max-width: none; }
+    @page { margin: 2cm; }
+  }
+</style>
+</head>
+<body>
+<header>
+  <h1>${escapeHtml(headline(meta))}</h1>
+  <dl>
+    <dt>Persona</dt><dd>${escapeHtml(meta.persona || 'Unnamed')}</dd>
+    <dt>Session date</dt><dd>${escapeHtml(meta.sessionDate.toLocaleString())}</dd>
+    <dt>Documents</dt><dd><ul>${documents}</ul></dd>
+  </dl>
+</header>
+<main>${body}
+</main>
+</body>
+</html>
+`;
+}
+
+export class TranscriptError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TranscriptError';
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+);
+
+const optionalNumber = (value: unknown) => (typeof value === 'number' ? value : undefined);
+
+// The string back if it parses as a date, so a bad stamp never becomes an Invalid Date later
+const dateString = (value: unknown) => (
+  typeof value === 'string' && !Number.isNaN(new Date(value).getTime()) ? value : undefined
+);
+
+// Keeps only well-formed citations. Chunk and document ids point into the exporting
+// session's index, so they are dropped: the new session has no such chunks.
+function importedCitations(value: unknown): Citation[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const citations = value.flatMap((c: unknown): Citation[] => (
+    isRecord(c) && typeof c.filename === 'string' && typeof c.snippet === 'string'
+      ? [{ filename: c.filename, snippet: c.snippet, page: optionalNumber(c.page), index: optionalNumber(c.index) }]
+      : []
+  ));
+  return citations.length ? citations : undefined;
+}
+
+function importedDocument(value: unknown): TranscriptDocument[] {
+  if (!isRecord(value) || typeof value.filename !== 'string') return [];
+  return [{
+    filename: value.filename,
+    type: typeof value.type === 'string' ? value.type : '',
+    pages: optionalNumber(value.pages) ?? null,
+    chunks: optionalNumber(value.chunks) ?? 0,
+  }];
+}
+
+// Messages missing a role, text or readable timestamp are skipped rather than guessed at
+function importedMessage(value: unknown): TranscriptMessage[] {
+  if (!isRecord(value) || (value.role !== 'user' && value.role !== 'assistant') || typeof value.content !== 'string') {
+    return [];
+  }
+  const timestamp = dateString(value.timestamp);
+  if (!timestamp) return [];
+  return [{
+    role: value.role,
+    content: value.content,
+    timestamp,
+    citations: importedCitations(value.citations),
+    stopped: value.stopped === true || undefined,
+  }];
+}
+
+// Validates an exported JSON transcript; throws TranscriptError with a readable reason.
+// The result is rebuilt from checked fields only, so nothing unexpected rides along.
+export function parseTranscriptFile(text: string): TranscriptFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new TranscriptError('The file is not valid JSON.');
+  }
+  if (!isRecord(data) || data.format !== TRANSCRIPT_FORMAT) {
+    throw new TranscriptError('This is not an exported Alive conversation.');
+  }
+  if (typeof data.version !== 'number' || data.version > TRANSCRIPT_VERSION) {
+    throw new TranscriptError('This conversation was exported by a newer version of the app.');
+  }
+  if (!Array.isArray(data.messages)) {
+    throw new TranscriptError('The conversation has no messages.');
+  }
+  const messages = data.messages.flatMap(importedMessage);
+  const exportedAt = dateString(data.exportedAt) ?? new Date().toISOString();
+  return {
+    format: TRANSCRIPT_FORMAT,
+    version: data.version,
+    exportedAt,
+    persona: typeof data.persona === 'string' ? data.persona : '',
+    title: typeof data.title === 'string' ? data.title : '',
+    sessionDate: dateString(data.sessionDate) ?? messages[0]?.timestamp ?? exportedAt,
+    documents: Array.isArray(data.documents) ? data.documents.flatMap(importedDocument) : [],
+    messages,
+  };
+}
+
+export function transcriptMessages(file: TranscriptFile): Message[] {
+  const stamp = Date.now();
+  return file.messages.map((m, i) => ({
+    id: `msg_${stamp}_import_${i}`,
+    role: m.role,
+    content: m.content,
+    citations: m.citations,
+    timestamp: new Date(m.timestamp),
+    stopped: m.stopped,
+  }));
+}
+
+// Filesystem-safe base name, e.g. "ada-lovelace-2025-11-09"
+export function transcriptFilename(meta: TranscriptMeta) {
+  const slug = (meta.title || meta.persona || 'conversation')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '') || 'conversation';
+  return `${slug}-${meta.sessionDate.toISOString().slice(0, 10)}`;
+}
+
+export function downloadFile(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+// Opens the print-styled transcript in a new window so the browser can save it as PDF.
+export function printTranscript(html: string) {
+  const win = window.open('', '_blank');
+  if (!win) return false;
+  win.document.open();
+  win.document.write(html);
+  win.document.close();
+  win.focus();
+  let printed = false;
+  const print = () => {
+    if (printed) return;
+    printed = true;
+    win.print();
+  };
+  win.onload = print;
+  // Some browsers never fire load for document.write content
+  setTimeout(print, 500);
+  return true;
+}
+
+export function exportTranscript(format: TranscriptFormat, messages: Message[], meta: TranscriptMeta) {
+  const name = transcriptFilename(meta);
+  switch (format) {
+    case 'markdown':
+      downloadFile(`${name}.md`, toMarkdown(messages, meta), 'text/markdown');
+      return true;
+    case 'json':
+      downloadFile(`${name}.json`, JSON.stringify(toTranscriptFile(messages, meta), null, 2), 'application/json');
+      return true;
+    case 'html':
+      downloadFile(`${name}.html`, toHtml(messages, meta), 'text/html');
+      return true;
+    case 'pdf':
+      return printTranscript(toHtml(messages, meta));
+  }
+}
@@ -0,0 +1,57 @@
+// Shapes shared by the app, its components and the lib modules. The backend's wire
+// formats live in api.ts; these are what the UI works with after conversion.
+import type { RetrievalMode } from './api';
+
+export interface Citation {
+  filename: string;
+  page?: number;
+  snippet: string;
+  index?: number;
+  documentId?: string;
+  chunkId?: string;
+}
+
+export interface Message {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  citations?: Citation[];
+  timestamp: Date;
+  isStreaming?: boolean;
+  // Generation was stopped by the user; any content is a partial answer
+  stopped?: boolean;
+  // Suggested next questions, offered under the latest answer
+  followUps?: string[];
+  // Every chunk the answer was built from, when the retrieval inspector is on
+  retrieval?: RetrievalTrace;
+  // Every answer generated for this question; content/citations mirror the active one
+  variants?: AnswerVariant[];
+  activeVariant?: number;
+  // Index of this exchange in the backend chat_history, once an answer completes
+  turn?: number;
+  // On a user message: the ids of the documents the question was limited to, if any
+  scope?: string[];
+  // On a user message: sibling tails created by editing this question (see lib/branches)
+  branches?: Message[][];
+  activeBranch?: number;
+}
+
+export interface AnswerVariant {
+  content: string;
+  citations?: Citation[];
+  timestamp: Date;
+  stopped?: boolean;
+  followUps?: string[];
+  retrieval?: RetrievalTrace;
+}
+
+export interface RetrievedChunk extends Citation {
+  text: string;
+  score?: number;
+}
+
+export interface RetrievalTrace {
+  question: string;
+  mode?: RetrievalMode;
+  chunks: RetrievedChunk[];
+}
@@ -0,0 +1,11 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_BASE?: string;
+  readonly VITE_MOCK_LATENCY?: string;
+  readonly VITE_MOCK_ERROR_RATE?: string;
+  readonly VITE_MOCK_FAIL?: string;
+}
+
+// Set from the mockApi flag in vite.config.ts
+declare const __MOCK_API__: boolean;
@@ -1,10 +1,18 @@
 
   import { defineConfig } from 'vite';
   import react from '@vitejs/plugin-react-swc';
+  import tailwindcss from '@tailwindcss/vite';
   import path from 'path';
 
+  // Dev flag: answer API calls in the browser from src/lib/mockApi.ts, with no backend.
+  // VITE_API_BASE=mock does the same without editing this file.
+  const mockApi = false;
+
   export default defineConfig({
-    plugins: [react()],
+    plugins: [react(), tailwindcss()],
+    define: {
+      __MOCK_API__: JSON.stringify(mockApi),
+    },
     resolve: {
       extensions: ['.js', '.jsx', '.ts', '.tsx', '.json'],
       alias: {